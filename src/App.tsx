@@ -1,14 +1,56 @@
-import { OrbitControls } from "@react-three/drei";
-import { Text, TransformControls } from "@react-three/drei/core";
-import { Canvas, ThreeEvent } from "@react-three/fiber";
-import { memo, useEffect, useReducer, useRef, useState } from "react";
+import {
+  GizmoHelper,
+  GizmoViewport,
+  Grid,
+  Html,
+  OrbitControls,
+} from "@react-three/drei";
+import { TransformControls } from "@react-three/drei/core";
+import { Canvas, ThreeEvent, useFrame, useThree } from "@react-three/fiber";
+import {
+  memo,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useReducer,
+  useRef,
+  useState,
+} from "react";
 import {
   FaArrowLeft,
   FaArrowRight,
   FaFolderOpen,
+  FaMagic,
   FaTrash,
 } from "react-icons/fa";
-import { HashRouter, Routes, Route, Link } from "react-router-dom";
+import {
+  compressToEncodedURIComponent,
+  decompressFromEncodedURIComponent,
+} from "lz-string";
+import {
+  HashRouter,
+  Routes,
+  Route,
+  Link,
+  useLocation,
+  useNavigate,
+  useParams,
+} from "react-router-dom";
+import {
+  ArrowHelper,
+  BoxGeometry,
+  CanvasTexture,
+  Color,
+  InstancedBufferAttribute,
+  InstancedMesh,
+  Material,
+  Matrix4,
+  MeshStandardMaterial,
+  PerspectiveCamera,
+  Vector3,
+} from "three";
+import type { OrbitControls as OrbitControlsImpl } from "three-stdlib";
 import { z } from "zod";
 
 // https://stackoverflow.com/a/37193954
@@ -20,6 +62,14 @@ import { z } from "zod";
 
 const BLOCK_COLOR = "rgb(255, 255, 255)";
 const SELECTED_BLOCK_COLOR = "rgb(150, 150, 230)";
+const WARNING_BLOCK_COLOR = "rgb(250, 220, 150)";
+const PREVIEW_BLOCK_COLOR = "rgb(150, 230, 150)";
+const GROUP_BLOCK_COLOR = "rgb(190, 215, 250)";
+const CURSOR_BLOCK_COLOR = "rgb(250, 200, 90)";
+const CORRECT_BLOCK_COLOR = "rgb(190, 240, 190)";
+const WRONG_BLOCK_COLOR = "rgb(250, 180, 180)";
+const REVEALED_BLOCK_COLOR = "rgb(220, 200, 250)";
+const PENCIL_TEXT_COLOR = "rgb(140, 140, 140)";
 
 function onlyContainsUpperCaseAlphabetsAndSpaces(s: string) {
   for (let i = 0; i < s.length; i++) {
@@ -34,9 +84,13 @@ function onlyContainsUpperCaseAlphabetsAndSpaces(s: string) {
   return true;
 }
 
+// X, Y and Z words read along +X, -Y (down) and +Z.
+// The words with a "-" read in the opposite direction.
+type Direction = "X" | "Y" | "Z" | "-X" | "-Y" | "-Z";
+
 function wordLetterPosition(
   start: [number, number, number],
-  direction: "X" | "Y" | "Z",
+  direction: Direction,
   index: number
 ): [number, number, number] {
   switch (direction) {
@@ -49,10 +103,25 @@ function wordLetterPosition(
     case "Z": {
       return [start[0], start[1], start[2] + index];
     }
+    case "-X": {
+      return [start[0] - index, start[1], start[2]];
+    }
+    case "-Y": {
+      return [start[0], start[1] + index, start[2]];
+    }
+    case "-Z": {
+      return [start[0], start[1], start[2] - index];
+    }
   }
 }
 
-interface LetterBlockProps {
+// The axis along which words with the direction read: 0 for X, 1 for Y and 2 for Z.
+function directionAxis(direction: Direction) {
+  return ["X", "Y", "Z"].indexOf(direction.replace("-", ""));
+}
+
+// A block drawn by LetterBlocks.
+interface LetterBlock {
   position: [number, number, number];
   letter: string;
   textColor: string;
@@ -61,212 +130,2921 @@ interface LetterBlockProps {
   onClick: (e: ThreeEvent<MouseEvent>) => void;
 }
 
-function LetterBlock({
-  position,
-  letter,
-  textColor,
-  color,
-  opacity,
-  onClick,
-}: LetterBlockProps) {
-  // The 0.51 is used so that the letter lies slightly outside the cube and thus is visible.
-  // The 0.05 is used to center the letters.
-  let letterPositionsAndRotations: [
-    [number, number, number],
-    [number, number, number]
-  ][] = [
-    [
-      [position[0], position[1] - 0.05, position[2] + 0.51],
-      [0, 0, 0],
-    ],
-    [
-      [position[0] + 0.51, position[1] - 0.05, position[2]],
-      [0, Math.PI / 2, 0],
-    ],
-    [
-      [position[0], position[1] - 0.05, position[2] - 0.51],
-      [0, Math.PI, 0],
-    ],
-    [
-      [position[0] - 0.51, position[1] - 0.05, position[2]],
-      [0, (3 * Math.PI) / 2, 0],
-    ],
-    [
-      [position[0], position[1] - 0.51, position[2] - 0.05],
-      [Math.PI / 2, 0, 0],
-    ],
-    [
-      [position[0], position[1] + 0.51, position[2] + 0.05],
-      [(3 * Math.PI) / 2, 0, 0],
+// The letters which can be drawn on a block, laid out in rows in the glyph atlas.
+// The space is left empty.
+const GLYPHS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ? ";
+const GLYPH_ATLAS_COLUMNS = 8;
+const GLYPH_ATLAS_ROWS = 4;
+const GLYPH_SIZE = 64;
+
+let glyphAtlas: null | CanvasTexture = null;
+
+// All the letters are drawn once into a texture which every block samples from,
+// instead of every face of every block having its own text mesh.
+function getGlyphAtlas() {
+  if (glyphAtlas === null) {
+    let canvas = document.createElement("canvas");
+    canvas.width = GLYPH_ATLAS_COLUMNS * GLYPH_SIZE;
+    canvas.height = GLYPH_ATLAS_ROWS * GLYPH_SIZE;
+    let context = canvas.getContext("2d") as CanvasRenderingContext2D;
+    context.fillStyle = "white";
+    context.font = `${Math.round(GLYPH_SIZE * 0.7)}px sans-serif`;
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+    for (let i = 0; i < GLYPHS.length; i++) {
+      context.fillText(
+        GLYPHS[i],
+        ((i % GLYPH_ATLAS_COLUMNS) + 0.5) * GLYPH_SIZE,
+        (Math.floor(i / GLYPH_ATLAS_COLUMNS) + 0.5) * GLYPH_SIZE
+      );
+    }
+    glyphAtlas = new CanvasTexture(canvas);
+  }
+  return glyphAtlas;
+}
+
+function glyphIndex(letter: string) {
+  let index = GLYPHS.indexOf(letter);
+  return index === -1 ? GLYPHS.indexOf(" ") : index;
+}
+
+// A standard material which draws the letter of every instance on each face of its box.
+// The letter, its colour and the opacity of the block are per instance attributes.
+function letterBlockMaterial(transparent: boolean) {
+  let material = new MeshStandardMaterial({
+    transparent,
+    // Instances aren't sorted by depth, so translucent blocks mustn't hide the blocks behind them.
+    depthWrite: !transparent,
+  });
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.glyphAtlas = { value: getGlyphAtlas() };
+    shader.vertexShader = shader.vertexShader
+      .replace(
+        "#include <common>",
+        `#include <common>
+attribute float glyph;
+attribute vec3 textColor;
+attribute float blockOpacity;
+varying vec2 vGlyphUv;
+varying vec3 vTextColor;
+varying float vBlockOpacity;`
+      )
+      .replace(
+        "#include <begin_vertex>",
+        `#include <begin_vertex>
+vec2 glyphCell = vec2(mod(glyph, ${GLYPH_ATLAS_COLUMNS}.0), floor(glyph / ${GLYPH_ATLAS_COLUMNS}.0));
+vGlyphUv = vec2(
+  (glyphCell.x + uv.x) / ${GLYPH_ATLAS_COLUMNS}.0,
+  1.0 - (glyphCell.y + 1.0 - uv.y) / ${GLYPH_ATLAS_ROWS}.0
+);
+vTextColor = textColor;
+vBlockOpacity = blockOpacity;`
+      );
+    shader.fragmentShader = shader.fragmentShader
+      .replace(
+        "#include <common>",
+        `#include <common>
+uniform sampler2D glyphAtlas;
+varying vec2 vGlyphUv;
+varying vec3 vTextColor;
+varying float vBlockOpacity;`
+      )
+      .replace(
+        "#include <color_fragment>",
+        `#include <color_fragment>
+diffuseColor.rgb = mix(diffuseColor.rgb, vTextColor, texture2D(glyphAtlas, vGlyphUv).a);
+diffuseColor.a *= vBlockOpacity;`
+      );
+  };
+  return material;
+}
+
+// An InstancedMesh computes the bounding sphere of its instances on the first raycast and keeps it,
+// so it is cleared when the blocks move. Otherwise blocks outside the old sphere can't be clicked.
+// The types of three don't declare it yet.
+function clearBoundingSphere(mesh: InstancedMesh) {
+  (mesh as InstancedMesh & { boundingSphere: unknown }).boundingSphere = null;
+}
+
+interface LetterBlockInstancesProps {
+  blocks: LetterBlock[];
+  transparent: boolean;
+  spacing: number;
+  onHover: (block: null | LetterBlock) => void;
+}
+
+function LetterBlockInstances({
+  blocks,
+  transparent,
+  spacing,
+  onHover,
+}: LetterBlockInstancesProps) {
+  let meshRef = useRef(null as null | InstancedMesh);
+  // The spacing which is drawn, which moves towards the spacing prop every frame.
+  let shownSpacing = useRef(spacing);
+  let material = useMemo(() => letterBlockMaterial(transparent), [transparent]);
+  // The instance attributes have a fixed size, so the geometry is recreated when the number of blocks changes.
+  let geometry = useMemo(() => {
+    let geometry = new BoxGeometry(1, 1, 1);
+    geometry.setAttribute(
+      "glyph",
+      new InstancedBufferAttribute(new Float32Array(blocks.length), 1)
+    );
+    geometry.setAttribute(
+      "textColor",
+      new InstancedBufferAttribute(new Float32Array(blocks.length * 3), 3)
+    );
+    geometry.setAttribute(
+      "blockOpacity",
+      new InstancedBufferAttribute(new Float32Array(blocks.length), 1)
+    );
+    return geometry;
+  }, [blocks.length]);
+
+  useEffect(() => {
+    return () => {
+      material.dispose();
+    };
+  }, [material]);
+
+  useEffect(() => {
+    return () => {
+      geometry.dispose();
+    };
+  }, [geometry]);
+
+  function updateMatrices() {
+    let mesh = meshRef.current as InstancedMesh;
+    let matrix = new Matrix4();
+    blocks.forEach(({ position }, i) => {
+      mesh.setMatrixAt(
+        i,
+        matrix.makeTranslation(
+          position[0] * shownSpacing.current,
+          position[1] * shownSpacing.current,
+          position[2] * shownSpacing.current
+        )
+      );
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    clearBoundingSphere(mesh);
+  }
+
+  useFrame((_, delta) => {
+    let difference = spacing - shownSpacing.current;
+    if (difference === 0) {
+      return;
+    }
+    shownSpacing.current =
+      Math.abs(difference) < 0.001
+        ? spacing
+        : shownSpacing.current + difference * Math.min(1, delta * 10);
+    updateMatrices();
+  });
+
+  useLayoutEffect(() => {
+    let mesh = meshRef.current as InstancedMesh;
+    let glyphs = geometry.getAttribute("glyph") as InstancedBufferAttribute;
+    let textColors = geometry.getAttribute(
+      "textColor"
+    ) as InstancedBufferAttribute;
+    let opacities = geometry.getAttribute(
+      "blockOpacity"
+    ) as InstancedBufferAttribute;
+    let color = new Color();
+    blocks.forEach((block, i) => {
+      let { letter, textColor, opacity } = block;
+      mesh.setColorAt(i, color.setStyle(block.color));
+      glyphs.setX(i, glyphIndex(letter));
+      color.setStyle(textColor);
+      textColors.setXYZ(i, color.r, color.g, color.b);
+      opacities.setX(i, opacity);
+    });
+    updateMatrices();
+    if (mesh.instanceColor) {
+      mesh.instanceColor.needsUpdate = true;
+    }
+    glyphs.needsUpdate = true;
+    textColors.needsUpdate = true;
+    opacities.needsUpdate = true;
+  }, [blocks, geometry]);
+
+  return (
+    <instancedMesh
+      key={blocks.length}
+      ref={meshRef}
+      args={[geometry, material, blocks.length]}
+      // Culling would compute the bounding sphere of all the instances again whenever it is cleared,
+      // and the crossword is rarely partly out of view anyway.
+      frustumCulled={false}
+      onClick={(e) => {
+        if (e.instanceId !== undefined) {
+          blocks[e.instanceId].onClick(e);
+        }
+      }}
+      onPointerMove={(e) => {
+        if (e.instanceId === undefined) {
+          return;
+        }
+        // Like clicks, hovering goes through the blocks faded out by a slice to the blocks behind them.
+        // They share the mesh with the other translucent blocks, so moving onto them doesn't end the hover.
+        if (blocks[e.instanceId].opacity > SLICED_OUT_OPACITY) {
+          e.stopPropagation();
+          onHover(blocks[e.instanceId]);
+        } else {
+          onHover(null);
+        }
+      }}
+      onPointerOut={() => {
+        onHover(null);
+      }}
+    />
+  );
+}
+
+interface LetterBlocksProps {
+  blocks: LetterBlock[];
+  // The distance between the centers of neighbouring blocks, which is more than 1 in the exploded view.
+  spacing: number;
+  // Whether the coordinates of the block under the pointer are shown.
+  showCoordinates: boolean;
+}
+
+// Draws the blocks as two instanced meshes, one for the opaque and one for the translucent blocks.
+function LetterBlocks({ blocks, spacing, showCoordinates }: LetterBlocksProps) {
+  let [hovered, setHovered] = useState(null as null | [number, number, number]);
+  // The blocks are only split again when they change, and not when the hovered block changes.
+  let [opaqueBlocks, translucentBlocks] = useMemo(
+    () => [
+      blocks.filter(({ opacity }) => opacity === 1),
+      blocks.filter(({ opacity }) => opacity !== 1),
     ],
-  ];
+    [blocks]
+  );
+
+  function onHover(block: null | LetterBlock) {
+    if (block === null) {
+      setHovered(null);
+      return;
+    }
+    let { position } = block;
+    // Moving the pointer over the same block keeps the state, so that nothing is rerendered.
+    setHovered((hovered) =>
+      hovered !== null && hovered.every((value, i) => value === position[i])
+        ? hovered
+        : position
+    );
+  }
 
   return (
     <>
-      {letterPositionsAndRotations.map(([position, rotation], index) => (
-        <Text
-          position={position}
-          rotation={rotation}
-          color={textColor}
-          fillOpacity={opacity}
-          anchorY="middle"
-          key={index}
-        >
-          {letter}
-        </Text>
-      ))}
-      <mesh position={position} onClick={onClick}>
-        <boxGeometry args={[1, 1, 1]} />
-        <meshStandardMaterial
-          color={color}
+      {opaqueBlocks.length > 0 && (
+        <LetterBlockInstances
+          blocks={opaqueBlocks}
+          transparent={false}
+          spacing={spacing}
+          onHover={onHover}
+        />
+      )}
+      {translucentBlocks.length > 0 && (
+        <LetterBlockInstances
+          blocks={translucentBlocks}
           transparent={true}
-          opacity={opacity}
+          spacing={spacing}
+          onHover={onHover}
         />
-      </mesh>
+      )}
+      {showCoordinates && hovered !== null && (
+        <Html
+          position={scalePosition(hovered, spacing)}
+          center
+          zIndexRange={[5, 0]}
+          pointerEvents="none"
+        >
+          <div className="-translate-y-8 px-1 whitespace-nowrap bg-white/90 border rounded text-sm">
+            [{hovered[0]}, {hovered[1]}, {hovered[2]}]
+          </div>
+        </Html>
+      )}
     </>
   );
 }
 
-type Word = {
-  word: string;
-  direction: "X" | "Y" | "Z";
-  start: [number, number, number];
-  description: string;
-};
+// Only the blocks whose coordinate along the axis lies between from and to are shown in full,
+// so that the inner blocks of a crossword can be reached.
+interface Slice {
+  axis: 0 | 1 | 2;
+  from: number;
+  to: number;
+  // Whether the other blocks are hidden or just faded.
+  hideOthers: boolean;
+}
 
-type Crossword = {
-  name: string;
+// The opacity of the blocks outside a slice, when they are faded.
+const SLICED_OUT_OPACITY = 0.05;
+
+// Fades or hides the blocks outside the slice. Faded blocks can't be clicked,
+// so clicks reach the blocks behind them.
+function sliceBlocks(blocks: LetterBlock[], slice: null | Slice) {
+  if (slice === null) {
+    return blocks;
+  }
+
+  let slicedBlocks: LetterBlock[] = [];
+  for (const block of blocks) {
+    let value = block.position[slice.axis];
+    if (slice.from <= value && value <= slice.to) {
+      slicedBlocks.push(block);
+    } else if (!slice.hideOthers) {
+      slicedBlocks.push({
+        ...block,
+        opacity: Math.min(block.opacity, SLICED_OUT_OPACITY),
+        onClick: () => {},
+      });
+    }
+  }
+  return slicedBlocks;
+}
+
+// The layers along the axis which the word passes through.
+function wordLayers({ word, start, direction }: Word, axis: 0 | 1 | 2) {
+  let end = wordLetterPosition(start, direction, word.length - 1);
+  return [
+    Math.min(start[axis], end[axis]),
+    Math.max(start[axis], end[axis]),
+  ] as [number, number];
+}
+
+interface SliceControlsProps {
   words: Word[];
-};
+  selectedWord: null | Word;
+  slice: null | Slice;
+  setSlice: (slice: null | Slice) => void;
+}
 
-const EXAMPLE_CROSSWORD: Crossword = {
-  name: "Example",
-  words: [
-    {
-      word: "HELLO",
-      direction: "X",
-      start: [0, 0, 0],
-      description: "Greeting",
-    },
-    {
-      word: "WORLD",
-      direction: "Y",
-      start: [4, 1, 0],
-      description: "Earth",
-    },
-  ],
-};
+function SliceControls({
+  words,
+  selectedWord,
+  slice,
+  setSlice,
+}: SliceControlsProps) {
+  let [followSelection, setFollowSelection] = useState(false);
 
-const crosswordSchema = z.object({
-  name: z.string().min(1),
-  words: z
-    .object({
-      word: z.string().min(1),
-      direction: z.enum(["X", "Y", "Z"]),
-      start: z.number().int().array().length(3),
-      description: z.string().min(1),
-    })
-    .array(),
-});
+  useEffect(() => {
+    if (slice === null) {
+      return;
+    }
 
-interface OpenCrosswordProps {
-  onOpen: (crossword: Crossword) => void;
+    function onKeyDown(e: KeyboardEvent) {
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement
+      ) {
+        return;
+      }
+
+      // [ and ] step through the layers.
+      let step = 0;
+      if (e.key === "[") {
+        step = -1;
+      } else if (e.key === "]") {
+        step = 1;
+      }
+      if (step !== 0) {
+        e.preventDefault();
+        let { from, to } = slice as Slice;
+        setSlice({ ...(slice as Slice), from: from + step, to: to + step });
+      }
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+    };
+  }, [slice]);
+
+  useEffect(() => {
+    if (
+      slice === null ||
+      !followSelection ||
+      selectedWord === null ||
+      selectedWord.word.length === 0
+    ) {
+      return;
+    }
+
+    let [from, to] = wordLayers(selectedWord, slice.axis);
+    if (from !== slice.from || to !== slice.to) {
+      setSlice({ ...slice, from, to });
+    }
+  }, [selectedWord, followSelection, slice]);
+
+  return (
+    <div className="p-2 space-y-1 bg-white/90 border rounded">
+      <div className="flex gap-2">
+        <label htmlFor="slice-axis">Slice:</label>
+        <select
+          id="slice-axis"
+          value={slice === null ? "" : slice.axis}
+          onChange={(e) => {
+            if (e.target.value === "") {
+              setSlice(null);
+              return;
+            }
+
+            let axis = Number(e.target.value) as 0 | 1 | 2;
+            let layer = crosswordCenter(words)[axis];
+            setSlice({
+              axis,
+              from: layer,
+              to: layer,
+              hideOthers: slice !== null && slice.hideOthers,
+            });
+          }}
+          className="border border-slate-300"
+        >
+          <option value="">Off</option>
+          <option value={0}>X</option>
+          <option value={1}>Y</option>
+          <option value={2}>Z</option>
+        </select>
+      </div>
+      {slice !== null && (
+        <>
+          <div className="flex gap-1 items-center">
+            <span>From</span>
+            <IntegerInput
+              value={slice.from}
+              onValueChange={(from) => {
+                setSlice({ ...slice, from, to: Math.max(from, slice.to) });
+              }}
+            />
+            <span>to</span>
+            <IntegerInput
+              value={slice.to}
+              onValueChange={(to) => {
+                setSlice({ ...slice, from: Math.min(slice.from, to), to });
+              }}
+            />
+          </div>
+          <div className="flex flex-col items-start">
+            <button
+              className="underline"
+              onClick={() => {
+                setSlice({ ...slice, hideOthers: !slice.hideOthers });
+              }}
+            >
+              {slice.hideOthers ? "Fade other layers" : "Hide other layers"}
+            </button>
+            <button
+              className="underline"
+              onClick={() => {
+                setFollowSelection(!followSelection);
+              }}
+            >
+              {followSelection
+                ? "Follow selection: on"
+                : "Follow selection: off"}
+            </button>
+          </div>
+          <p className="text-sm text-slate-600">
+            Press [ and ] to step through the layers.
+          </p>
+        </>
+      )}
+    </div>
+  );
 }
 
-function OpenCrossword({ onOpen }: OpenCrosswordProps) {
-  let [fileError, setFileError] = useState("");
+function scalePosition(
+  position: [number, number, number],
+  spacing: number
+): [number, number, number] {
+  return [position[0] * spacing, position[1] * spacing, position[2] * spacing];
+}
+
+const MIN_SPACING = 1;
+const MAX_SPACING = 2.5;
 
+interface ExplodeControlProps {
+  spacing: number;
+  setSpacing: (spacing: number) => void;
+}
+
+// Spreads the blocks apart so that the inner blocks become visible.
+function ExplodeControl({ spacing, setSpacing }: ExplodeControlProps) {
   return (
-    <div>
+    <div className="p-2 flex gap-2 items-center bg-white/90 border rounded">
+      <label htmlFor="explode">Explode:</label>
       <input
-        type="file"
-        className="mb-1"
+        id="explode"
+        type="range"
+        min={MIN_SPACING}
+        max={MAX_SPACING}
+        step={0.1}
+        value={spacing}
         onChange={(e) => {
-          let fileInput = e.target as HTMLInputElement;
-          if (fileInput.files && fileInput.files.length > 0) {
-            let file = fileInput.files[0];
-            file
-              .text()
-              .then((text) => {
-                try {
-                  let crossword = crosswordSchema.parse(
-                    JSON.parse(text)
-                  ) as Crossword;
-
-                  // Check whether the crossword is valid.
-                  let letters = new Map();
-                  for (const { word, direction, start } of crossword.words) {
-                    for (let i = 0; i < word.length; i++) {
-                      if (
-                        word[i].charCodeAt(i) < "A".charCodeAt(0) ||
-                        word[i].charCodeAt(i) > "Z".charCodeAt(0)
-                      ) {
-                        // Not an uppercase alphabet.
-                        setFileError("Invalid crossword");
-                        return;
-                      }
+          setSpacing(Number(e.target.value));
+        }}
+      />
+    </div>
+  );
+}
+
+// A move of the camera requested from outside the canvas.
+// Every request is a new object, so repeating a request moves the camera again.
+type CameraRequest =
+  | {
+      // Looks at the whole crossword from the direction.
+      type: "Preset";
+      direction: [number, number, number];
+    }
+  | {
+      // Looks at the whole crossword from the current direction.
+      type: "FrameAll";
+    }
+  | {
+      // Looks at the word from a direction perpendicular to it.
+      type: "Word";
+      word: Word;
+    };
+
+const CAMERA_PRESETS: [string, [number, number, number]][] = [
+  ["Front", [0, 0, 1]],
+  ["Back", [0, 0, -1]],
+  // Looking exactly along the up direction confuses OrbitControls, so the top and bottom views are slightly tilted.
+  ["Top", [0, 1, 0.001]],
+  ["Bottom", [0, -1, 0.001]],
+  ["Left", [-1, 0, 0]],
+  ["Right", [1, 0, 0]],
+  ["Isometric", [1, 1, 1]],
+];
+
+interface CameraRigProps {
+  words: Word[];
+  orbitCenter: [number, number, number];
+  spacing: number;
+  request: null | CameraRequest;
+  // Presets and frame all look at the center of the crossword and make it the orbit center.
+  // Without it, they keep looking at the orbit center, for example while it is the middle of a word being edited.
+  setOrbitCenter: null | ((orbitCenter: [number, number, number]) => void);
+  makeDefault?: boolean;
+}
+
+// OrbitControls around the orbit center, which moves the camera smoothly
+// when the orbit center changes or a camera move is requested.
+function CameraRig({
+  words,
+  orbitCenter,
+  spacing,
+  request,
+  setOrbitCenter,
+  makeDefault,
+}: CameraRigProps) {
+  let camera = useThree((state) => state.camera);
+  let controlsRef = useRef(null as null | OrbitControlsImpl);
+  // The target and camera position the camera is moving towards.
+  // The camera stays in place while only the target moves.
+  let goal = useRef(
+    null as null | { target: Vector3; position: null | Vector3 }
+  );
+  let initialized = useRef(false);
+
+  // The distance from which a box of the size fills the view.
+  function frameDistance(size: number) {
+    let fov = camera instanceof PerspectiveCamera ? camera.fov : 75;
+    return (size / 2 / Math.tan(((fov / 2) * Math.PI) / 180)) * 1.2;
+  }
+
+  useEffect(() => {
+    let target = new Vector3(...scalePosition(orbitCenter, spacing));
+    if (!initialized.current && controlsRef.current) {
+      controlsRef.current.target.copy(target);
+      initialized.current = true;
+      return;
+    }
+    // A requested camera move may have already changed the orbit center, and keeps its camera position.
+    if (goal.current !== null && goal.current.target.equals(target)) {
+      return;
+    }
+    goal.current = { target, position: null };
+  }, [orbitCenter[0], orbitCenter[1], orbitCenter[2], spacing]);
+
+  useEffect(() => {
+    if (request === null || controlsRef.current === null) {
+      return;
+    }
+
+    let controls = controlsRef.current;
+    if (request.type === "Word") {
+      let { word, start, direction } = request.word;
+      let target = new Vector3(
+        ...scalePosition(
+          wordLetterPosition(start, direction, Math.floor(word.length / 2)),
+          spacing
+        )
+      );
+      // The target is the middle block, which is also the orbit center when a word is selected.
+      // Keep the camera on the side it is on, but turn it to be perpendicular to the word.
+      let axis = directionAxis(direction);
+      let offset = camera.position.clone().sub(controls.target);
+      offset.setComponent(axis, 0);
+      if (offset.lengthSq() < 0.0001) {
+        offset.setComponent((axis + 1) % 3, 1);
+      }
+      offset
+        .normalize()
+        .multiplyScalar(
+          Math.max(frameDistance((word.length + 1) * spacing), 5)
+        );
+      goal.current = { target, position: target.clone().add(offset) };
+      return;
+    }
+
+    let bounds = crosswordBounds(words);
+    let min = new Vector3(...(bounds ? bounds.min : [0, 0, 0]));
+    let max = new Vector3(...(bounds ? bounds.max : [0, 0, 0]));
+    let center = setOrbitCenter ? crosswordCenter(words) : orbitCenter;
+    let target = new Vector3(...scalePosition(center, spacing));
+    // The whole crossword has to fit around the target, which isn't exactly in the middle of it.
+    let middle = min
+      .clone()
+      .add(max)
+      .multiplyScalar(spacing / 2);
+    let size =
+      max.clone().sub(min).multiplyScalar(spacing).length() +
+      1 +
+      2 * target.distanceTo(middle);
+    let offset =
+      request.type === "Preset"
+        ? new Vector3(...request.direction)
+        : camera.position.clone().sub(controls.target);
+    offset.normalize().multiplyScalar(Math.max(frameDistance(size), 5));
+    goal.current = { target, position: target.clone().add(offset) };
+    if (setOrbitCenter) {
+      setOrbitCenter(center);
+    }
+  }, [request]);
+
+  useFrame((_, delta) => {
+    let controls = controlsRef.current;
+    if (goal.current === null || controls === null) {
+      return;
+    }
+
+    let { target, position } = goal.current;
+    let t = Math.min(1, delta * 6);
+    controls.target.lerp(target, t);
+    if (position !== null) {
+      camera.position.lerp(position, t);
+    }
+    if (
+      controls.target.distanceTo(target) < 0.01 &&
+      (position === null || camera.position.distanceTo(position) < 0.01)
+    ) {
+      controls.target.copy(target);
+      if (position !== null) {
+        camera.position.copy(position);
+      }
+      goal.current = null;
+    }
+    controls.update();
+  });
+
+  return <OrbitControls ref={controlsRef} makeDefault={makeDefault} />;
+}
+
+interface CameraControlsProps {
+  setCameraRequest: (request: CameraRequest) => void;
+}
+
+function CameraControls({ setCameraRequest }: CameraControlsProps) {
+  return (
+    <div className="p-2 bg-white/90 border rounded">
+      <div className="flex flex-wrap gap-x-2 max-w-[12rem]">
+        {CAMERA_PRESETS.map(([name, direction]) => (
+          <button
+            className="underline"
+            onClick={() => {
+              setCameraRequest({ type: "Preset", direction });
+            }}
+            key={name}
+          >
+            {name}
+          </button>
+        ))}
+        <button
+          className="underline"
+          onClick={() => {
+            setCameraRequest({ type: "FrameAll" });
+          }}
+        >
+          Frame all
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// The colours of the X, Y and Z axes, used by the axis gizmo and the word direction arrows.
+const AXIS_COLORS: [string, string, string] = [
+  "rgb(230, 60, 80)",
+  "rgb(40, 190, 100)",
+  "rgb(50, 120, 240)",
+];
+
+// Optional helpers which make positions in the 3D view easier to read.
+interface ViewAids {
+  gizmo: boolean;
+  grid: boolean;
+  coordinates: boolean;
+}
+
+const DEFAULT_VIEW_AIDS: ViewAids = {
+  gizmo: true,
+  grid: false,
+  coordinates: true,
+};
+
+interface ViewAidsControlProps {
+  viewAids: ViewAids;
+  setViewAids: (viewAids: ViewAids) => void;
+}
+
+function ViewAidsControl({ viewAids, setViewAids }: ViewAidsControlProps) {
+  let aids: [keyof ViewAids, string][] = [
+    ["gizmo", "Axes"],
+    ["grid", "Grid"],
+    ["coordinates", "Coordinates"],
+  ];
+  return (
+    <div className="p-2 flex gap-2 bg-white/90 border rounded">
+      {aids.map(([aid, name]) => (
+        <button
+          className="underline"
+          onClick={() => {
+            setViewAids({ ...viewAids, [aid]: !viewAids[aid] });
+          }}
+          key={aid}
+        >
+          {name}: {viewAids[aid] ? "on" : "off"}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface SceneAidsProps {
+  words: Word[];
+  spacing: number;
+  viewAids: ViewAids;
+}
+
+// The axis gizmo in the corner of the canvas, and the grid under the crossword.
+function SceneAids({ words, spacing, viewAids }: SceneAidsProps) {
+  let bounds = crosswordBounds(words);
+  // The grid lines run between the blocks, just below the lowest ones.
+  let gridPosition: [number, number, number] = [
+    spacing / 2,
+    (bounds ? bounds.min[1] : 0) * spacing - 0.51,
+    spacing / 2,
+  ];
+  return (
+    <>
+      {viewAids.gizmo && (
+        <GizmoHelper alignment="bottom-left" margin={[60, 60]}>
+          <GizmoViewport
+            axisColors={AXIS_COLORS}
+            labelColor="white"
+            disabled={true}
+          />
+        </GizmoHelper>
+      )}
+      {viewAids.grid && (
+        <Grid
+          position={gridPosition}
+          cellSize={spacing}
+          cellColor="rgb(160, 160, 160)"
+          sectionSize={spacing * 5}
+          sectionColor="rgb(100, 100, 100)"
+          infiniteGrid={true}
+          fadeDistance={60}
+        />
+      )}
+    </>
+  );
+}
+
+interface WordDirectionArrowProps {
+  word: Word;
+  spacing: number;
+}
+
+// An arrow along the word in the colour of its axis, pointing in the direction it reads.
+// It is drawn over the blocks so that it is visible from every side.
+function WordDirectionArrow({ word, spacing }: WordDirectionArrowProps) {
+  let { start, direction } = word;
+  let vector = new Vector3(...DIRECTION_VECTORS[direction]);
+  let origin = new Vector3(...scalePosition(start, spacing)).addScaledVector(
+    vector,
+    -0.75
+  );
+  let length = (word.word.length - 1) * spacing + 1.75;
+  let color = AXIS_COLORS[directionAxis(direction)];
+  let arrowRef = useRef(null as null | ArrowHelper);
+
+  useLayoutEffect(() => {
+    let arrow = arrowRef.current as ArrowHelper;
+    for (const part of [arrow.line, arrow.cone]) {
+      (part.material as Material).depthTest = false;
+      part.renderOrder = 1;
+    }
+    arrow.setDirection(vector);
+    arrow.setLength(length, 0.6, 0.4);
+    arrow.setColor(new Color().setStyle(color));
+    arrow.position.copy(origin);
+  });
+
+  return <arrowHelper ref={arrowRef} />;
+}
+
+type Word = {
+  word: string;
+  direction: Direction;
+  start: [number, number, number];
+  description: string;
+};
+
+type Difficulty = "Easy" | "Medium" | "Hard";
+
+interface CrosswordMetadata {
+  author?: string;
+  // ISO 8601 date.
+  createdAt?: string;
+  difficulty?: Difficulty;
+  notes?: string;
+  copyright?: string;
+}
+
+// The answers of a crossword opened from a solver file, which are only known by their salted hashes.
+interface CrosswordProtection {
+  salt: string;
+  hashes: string[];
+}
+
+type Crossword = {
+  name: string;
+  words: Word[];
+  metadata?: CrosswordMetadata;
+  // Crosswords opened from a solver file have blank words, whose answers are checked against the hashes.
+  protection?: CrosswordProtection;
+};
+
+const EXAMPLE_CROSSWORD: Crossword = {
+  name: "Example",
+  words: [
+    {
+      word: "HELLO",
+      direction: "X",
+      start: [0, 0, 0],
+      description: "Greeting",
+    },
+    {
+      word: "WORLD",
+      direction: "Y",
+      start: [4, 1, 0],
+      description: "Earth",
+    },
+  ],
+};
+
+// The version of the crossword file format.
+// When the format changes, increase the version and add a migration below.
+const CROSSWORD_FILE_VERSION = 1;
+
+// CROSSWORD_FILE_MIGRATIONS[i] upgrades a file of version i to version i + 1.
+// The files aren't validated until they are migrated, so migrations can't rely on their contents.
+const CROSSWORD_FILE_MIGRATIONS: ((
+  file: Record<string, unknown>
+) => Record<string, unknown>)[] = [
+  // Version 0 files don't have a version and only contain the name and the words.
+  (file) => ({ ...file, version: 1, metadata: {} }),
+];
+
+function migrateCrosswordFile(file: unknown) {
+  if (typeof file !== "object" || file === null) {
+    return file;
+  }
+
+  let migratedFile = file as Record<string, unknown>;
+  let version = migratedFile.version === undefined ? 0 : migratedFile.version;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 0 ||
+    version >= CROSSWORD_FILE_VERSION
+  ) {
+    // Either the file is up to date or the version is invalid, in which case the schema will reject it.
+    return file;
+  }
+
+  for (; version < CROSSWORD_FILE_VERSION; version++) {
+    migratedFile = CROSSWORD_FILE_MIGRATIONS[version](migratedFile);
+  }
+  return migratedFile;
+}
+
+const metadataSchema = z.object({
+  author: z.string().optional(),
+  createdAt: z.string().optional(),
+  difficulty: z.enum(["Easy", "Medium", "Hard"]).optional(),
+  notes: z.string().optional(),
+  copyright: z.string().optional(),
+});
+
+const crosswordSchema = z.object({
+  version: z.literal(CROSSWORD_FILE_VERSION),
+  name: z.string().min(1),
+  words: z
+    .object({
+      word: z.string().min(1),
+      direction: z.enum(["X", "Y", "Z", "-X", "-Y", "-Z"]),
+      start: z.number().int().array().length(3),
+      description: z.string().min(1),
+    })
+    .array(),
+  metadata: metadataSchema,
+});
+
+// A draft is a crossword which might not be valid yet,
+// for example it might have empty words or clashing letters.
+const draftSchema = z.object({
+  version: z.literal(CROSSWORD_FILE_VERSION),
+  name: z.string(),
+  words: z
+    .object({
+      word: z.string().refine(onlyContainsUpperCaseAlphabetsAndSpaces),
+      direction: z.enum(["X", "Y", "Z", "-X", "-Y", "-Z"]),
+      start: z.number().int().array().length(3),
+      description: z.string(),
+    })
+    .array(),
+  metadata: metadataSchema,
+});
+
+// Throws if the file isn't a crossword.
+function parseCrosswordFile(file: unknown) {
+  let { name, words, metadata } = crosswordSchema.parse(
+    migrateCrosswordFile(file)
+  );
+  return { name, words, metadata } as Crossword;
+}
+
+// Throws if the file isn't a draft.
+function parseDraftFile(file: unknown) {
+  let { name, words, metadata } = draftSchema.parse(migrateCrosswordFile(file));
+  return { name, words, metadata } as Crossword;
+}
+
+function crosswordFile(crossword: Crossword) {
+  return {
+    version: CROSSWORD_FILE_VERSION,
+    name: crossword.name,
+    words: crossword.words,
+    metadata: crossword.metadata ?? {},
+  };
+}
+
+// A solver file replaces every answer with its length and a salted hash, so that the answers
+// can't be read off the file. Short answers could still be found by hashing a dictionary,
+// so this is meant to avoid spoilers rather than to keep the answers secret.
+const solverFileSchema = z.object({
+  version: z.literal(CROSSWORD_FILE_VERSION),
+  name: z.string().min(1),
+  salt: z.string().min(1),
+  words: z
+    .object({
+      length: z.number().int().min(1),
+      hash: z.string().min(1),
+      direction: z.enum(["X", "Y", "Z", "-X", "-Y", "-Z"]),
+      start: z.number().int().array().length(3),
+      description: z.string().min(1),
+    })
+    .array(),
+  metadata: metadataSchema,
+});
+
+function isSolverFile(file: unknown) {
+  return typeof file === "object" && file !== null && "salt" in file;
+}
+
+// Throws if the file isn't a solver file.
+function parseSolverFile(file: unknown) {
+  let { name, salt, words, metadata } = solverFileSchema.parse(file);
+  return {
+    name,
+    words: words.map(({ length, direction, start, description }) => ({
+      word: " ".repeat(length),
+      direction,
+      start,
+      description,
+    })),
+    metadata,
+    protection: { salt, hashes: words.map(({ hash }) => hash) },
+  } as Crossword;
+}
+
+function solverFile(crossword: Crossword) {
+  let salt = Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+  return {
+    version: CROSSWORD_FILE_VERSION,
+    name: crossword.name,
+    salt,
+    words: crossword.words.map(({ word, direction, start, description }) => ({
+      length: word.length,
+      hash: answerHash(salt, word),
+      direction,
+      start,
+      description,
+    })),
+    metadata: crossword.metadata ?? {},
+  };
+}
+
+interface Diagnostic {
+  severity: "error" | "warning";
+  // The word the diagnostic is about, if any.
+  wordIndex: null | number;
+  // The positions of the letter blocks the diagnostic is about.
+  positions: [number, number, number][];
+  message: string;
+}
+
+function wordLabel(words: Word[], wordIndex: number) {
+  let { word } = words[wordIndex];
+  return `word ${wordIndex + 1} (${
+    word.length > 0 ? word.replaceAll(" ", "_") : "_"
+  })`;
+}
+
+function formatPosition(position: [number, number, number]) {
+  return `[${position[0]},${position[1]},${position[2]}]`;
+}
+
+// Returns the problems which prevent the crossword from being saved or solved.
+function validateCrossword(crossword: Crossword) {
+  let { name, words } = crossword;
+  let diagnostics: Diagnostic[] = [];
+
+  if (name.length === 0) {
+    diagnostics.push({
+      severity: "error",
+      wordIndex: null,
+      positions: [],
+      message: "empty name",
+    });
+  }
+  if (words.length === 0) {
+    diagnostics.push({
+      severity: "error",
+      wordIndex: null,
+      positions: [],
+      message: "no words",
+    });
+  }
+
+  // The first word to use each position, along with its letter.
+  let letters: Map<string, { letter: string; wordIndex: number }> = new Map();
+  words.forEach(({ word, direction, start, description }, wordIndex) => {
+    let label = wordLabel(words, wordIndex);
+    if (word.length === 0) {
+      diagnostics.push({
+        severity: "error",
+        wordIndex,
+        positions: [],
+        message: `${label} is empty`,
+      });
+    }
+    if (description.length === 0) {
+      diagnostics.push({
+        severity: "error",
+        wordIndex,
+        positions: [],
+        message: `${label} has an empty clue`,
+      });
+    }
+
+    for (let i = 0; i < word.length; i++) {
+      let position = wordLetterPosition(start, direction, i);
+      if (word[i] === " ") {
+        diagnostics.push({
+          severity: "error",
+          wordIndex,
+          positions: [position],
+          message: `${label} has a blank letter at ${formatPosition(position)}`,
+        });
+        continue;
+      }
+      if (
+        word.charCodeAt(i) < "A".charCodeAt(0) ||
+        word.charCodeAt(i) > "Z".charCodeAt(0)
+      ) {
+        diagnostics.push({
+          severity: "error",
+          wordIndex,
+          positions: [position],
+          message: `${label} has a non A–Z character "${
+            word[i]
+          }" at ${formatPosition(position)}`,
+        });
+        continue;
+      }
+
+      let positionKey = `${position[0]} ${position[1]} ${position[2]}`;
+      let entry = letters.get(positionKey);
+      if (entry === undefined) {
+        letters.set(positionKey, { letter: word[i], wordIndex });
+      } else if (entry.letter !== word[i]) {
+        diagnostics.push({
+          severity: "error",
+          wordIndex,
+          positions: [position],
+          message: `${label} clashes with word ${
+            entry.wordIndex + 1
+          } at ${formatPosition(position)}: ${word[i]} vs ${entry.letter}`,
+        });
+      }
+    }
+  });
+
+  return diagnostics;
+}
+
+// Converts the schema errors of a crossword file into diagnostics.
+function schemaDiagnostics(error: z.ZodError) {
+  return error.issues.map((issue): Diagnostic => {
+    let wordIndex =
+      issue.path[0] === "words" && typeof issue.path[1] === "number"
+        ? issue.path[1]
+        : null;
+    return {
+      severity: "error",
+      wordIndex,
+      positions: [],
+      message: `${issue.path.join(".") || "file"}: ${issue.message}`,
+    };
+  });
+}
+
+function isValidCrossword(crossword: Crossword) {
+  return validateCrossword(crossword).every(
+    ({ severity }) => severity !== "error"
+  );
+}
+
+// Returns warnings about the quality of the crossword, for example parts which aren't connected
+// or blocks which are adjacent without belonging to a common word.
+// letters maps position keys to the letter blocks and the words using them.
+function analyzeCrosswordQuality(
+  words: Word[],
+  letters: Map<
+    string,
+    { position: [number, number, number]; lettersBy: number[] }
+  >
+) {
+  let diagnostics: Diagnostic[] = [];
+  let wordPositions = words.map(({ word, direction, start }) => {
+    let positions: [number, number, number][] = [];
+    for (let i = 0; i < word.length; i++) {
+      positions.push(wordLetterPosition(start, direction, i));
+    }
+    return positions;
+  });
+
+  // Find the connected parts of the crossword using union find.
+  // https://en.wikipedia.org/wiki/Disjoint-set_data_structure
+  let parent = words.map((_, i) => i);
+  let find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  for (const { lettersBy } of letters.values()) {
+    for (let i = 1; i < lettersBy.length; i++) {
+      parent[find(lettersBy[i])] = find(lettersBy[0]);
+    }
+  }
+  let partSizes: Map<number, number> = new Map();
+  words.forEach((_, i) => {
+    let root = find(i);
+    partSizes.set(root, (partSizes.get(root) ?? 0) + 1);
+  });
+  let largestPart = -1;
+  for (const [root, size] of partSizes) {
+    if (largestPart === -1 || size > (partSizes.get(largestPart) as number)) {
+      largestPart = root;
+    }
+  }
+
+  words.forEach(({ word }, wordIndex) => {
+    if (word.length === 0 || words.length === 1) {
+      return;
+    }
+
+    let label = wordLabel(words, wordIndex);
+    let crosses = wordPositions[wordIndex].some((position) => {
+      let entry = letters.get(`${position[0]} ${position[1]} ${position[2]}`);
+      return entry !== undefined && entry.lettersBy.length > 1;
+    });
+    if (!crosses) {
+      diagnostics.push({
+        severity: "warning",
+        wordIndex,
+        positions: wordPositions[wordIndex],
+        message: `${label} doesn't cross any other word`,
+      });
+    } else if (find(wordIndex) !== largestPart) {
+      diagnostics.push({
+        severity: "warning",
+        wordIndex,
+        positions: wordPositions[wordIndex],
+        message: `${label} isn't connected to the rest of the crossword`,
+      });
+    }
+  });
+
+  // Words lying completely inside another word with the same direction.
+  words.forEach(({ word, direction }, wordIndex) => {
+    if (word.length === 0) {
+      return;
+    }
+
+    // Only the words through the first block can contain the word.
+    let first = wordPositions[wordIndex][0];
+    let firstEntry = letters.get(`${first[0]} ${first[1]} ${first[2]}`);
+    for (const other of firstEntry ? firstEntry.lettersBy : []) {
+      if (
+        other === wordIndex ||
+        directionAxis(words[other].direction) !== directionAxis(direction) ||
+        words[other].word.length < word.length ||
+        // If both words have the same blocks, we only report it once.
+        (words[other].word.length === word.length && other > wordIndex)
+      ) {
+        continue;
+      }
+
+      let contained = wordPositions[wordIndex].every((position) => {
+        let entry = letters.get(`${position[0]} ${position[1]} ${position[2]}`);
+        return entry !== undefined && entry.lettersBy.includes(other);
+      });
+      if (contained) {
+        diagnostics.push({
+          severity: "warning",
+          wordIndex,
+          positions: wordPositions[wordIndex],
+          message: `${wordLabel(words, wordIndex)} is contained in ${wordLabel(
+            words,
+            other
+          )}`,
+        });
+        break;
+      }
+    }
+  });
+
+  // Blocks which are next to each other along an axis but don't belong to a common word.
+  for (const { position, lettersBy } of letters.values()) {
+    for (let axis = 0; axis < 3; axis++) {
+      let neighbour = [...position] as [number, number, number];
+      neighbour[axis] += 1;
+      let neighbourEntry = letters.get(
+        `${neighbour[0]} ${neighbour[1]} ${neighbour[2]}`
+      );
+      if (
+        neighbourEntry !== undefined &&
+        !lettersBy.some((i) =>
+          (neighbourEntry as { lettersBy: number[] }).lettersBy.includes(i)
+        )
+      ) {
+        diagnostics.push({
+          severity: "warning",
+          wordIndex: null,
+          positions: [position, neighbour],
+          message: `blocks at ${formatPosition(position)} and ${formatPosition(
+            neighbour
+          )} are adjacent but don't belong to a common word`,
+        });
+      }
+    }
+  }
+
+  return diagnostics;
+}
+
+interface ValidationReportProps {
+  diagnostics: Diagnostic[];
+  onSelect?: (diagnostic: Diagnostic) => void;
+}
+
+function ValidationReport({ diagnostics, onSelect }: ValidationReportProps) {
+  return (
+    <ul className="space-y-1 text-sm">
+      {diagnostics.map((diagnostic, index) => (
+        <li
+          key={index}
+          className={
+            (diagnostic.severity === "error"
+              ? "text-red-700"
+              : "text-amber-700") +
+            (onSelect && diagnostic.wordIndex !== null ? " cursor-pointer" : "")
+          }
+          onClick={() => {
+            if (onSelect) {
+              onSelect(diagnostic);
+            }
+          }}
+        >
+          {diagnostic.severity === "error" ? "Error" : "Warning"}:{" "}
+          {diagnostic.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// The crossword is stored in the link as compressed JSON.
+function crosswordShareLink(crossword: Crossword) {
+  let payload = compressToEncodedURIComponent(
+    JSON.stringify(crosswordFile(crossword))
+  );
+  return `${window.location.origin}${window.location.pathname}#/solve/${payload}`;
+}
+
+// Returns null if the payload isn't a valid crossword.
+function crosswordFromSharePayload(payload: string) {
+  let text = decompressFromEncodedURIComponent(payload);
+  if (!text) {
+    return null;
+  }
+
+  try {
+    let crossword = parseCrosswordFile(JSON.parse(text));
+    return isValidCrossword(crossword) ? crossword : null;
+  } catch (err) {
+    return null;
+  }
+}
+
+const DATABASE_NAME = "3d-crossword";
+const LIBRARY_STORE = "library";
+const PROGRESS_STORE = "progress";
+const DRAFT_STORE = "draft";
+// The draft store only contains the current draft of the create page.
+const DRAFT_KEY = "current";
+
+interface LibraryEntry {
+  id: number;
+  crossword: Crossword;
+  added: number;
+  lastOpened: number;
+}
+
+// The location state used to open a library crossword in the solve or create page.
+interface LibraryLocationState {
+  crossword: Crossword;
+}
+
+function openDatabase() {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    let request = indexedDB.open(DATABASE_NAME, 3);
+    request.onupgradeneeded = (e) => {
+      if (e.oldVersion < 1) {
+        request.result.createObjectStore(LIBRARY_STORE, {
+          keyPath: "id",
+          autoIncrement: true,
+        });
+      }
+      if (e.oldVersion < 2) {
+        request.result.createObjectStore(PROGRESS_STORE, {
+          keyPath: "crosswordHash",
+        });
+      }
+      if (e.oldVersion < 3) {
+        request.result.createObjectStore(DRAFT_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function storeRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  let database = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      let store = database.transaction(storeName, mode).objectStore(storeName);
+      let request = makeRequest(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    database.close();
+  }
+}
+
+function getLibraryEntries() {
+  return storeRequest(
+    LIBRARY_STORE,
+    "readonly",
+    (store) => store.getAll() as IDBRequest<LibraryEntry[]>
+  );
+}
+
+function deleteLibraryEntry(id: number) {
+  return storeRequest(LIBRARY_STORE, "readwrite", (store) => store.delete(id));
+}
+
+function createLibraryEntry(crossword: Crossword) {
+  let now = Date.now();
+  return storeRequest(LIBRARY_STORE, "readwrite", (store) =>
+    store.add({
+      crossword: {
+        name: crossword.name,
+        words: crossword.words,
+        metadata: crossword.metadata,
+      },
+      added: now,
+      lastOpened: now,
+    })
+  );
+}
+
+// Adds the crossword to the library.
+// If the library already contains the same crossword, we only update when it was last opened.
+async function addToLibrary(crossword: Crossword) {
+  let crosswordJSON = JSON.stringify(crosswordFile(crossword));
+  let entries = await getLibraryEntries();
+  let entry = entries.find(
+    (entry) => JSON.stringify(crosswordFile(entry.crossword)) === crosswordJSON
+  );
+  if (entry) {
+    let updatedEntry = { ...entry, lastOpened: Date.now() };
+    await storeRequest(LIBRARY_STORE, "readwrite", (store) =>
+      store.put(updatedEntry)
+    );
+  } else {
+    await createLibraryEntry(crossword);
+  }
+}
+
+interface SolveProgress {
+  crosswordHash: string;
+  cells: SolveCells;
+  currentWordIndex: null | number;
+  orbitCenter: [number, number, number];
+  elapsedSeconds: number;
+  paused: boolean;
+  // The letters which were checked and the revealed positions, both by position key.
+  checkedLetters: Record<string, string>;
+  revealed: string[];
+  assists: number;
+  updated: number;
+}
+
+// A hash of the crossword content, used to find the saved progress of a crossword.
+function crosswordHash(crossword: Crossword) {
+  return cyrb53(
+    JSON.stringify({
+      name: crossword.name,
+      words: crossword.words,
+      protection: crossword.protection,
+    })
+  );
+}
+
+function answerHash(salt: string, answer: string) {
+  return cyrb53(salt + answer);
+}
+
+// https://stackoverflow.com/a/52171480
+function cyrb53(text: string) {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    let ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (
+    (h2 >>> 0).toString(16).padStart(8, "0") +
+    (h1 >>> 0).toString(16).padStart(8, "0")
+  );
+}
+
+function getSolveProgress(crosswordHash: string) {
+  return storeRequest(
+    PROGRESS_STORE,
+    "readonly",
+    (store) => store.get(crosswordHash) as IDBRequest<SolveProgress | undefined>
+  );
+}
+
+// The last queued write. Every queued write waits for the previous one,
+// so that an older progress or draft can't overwrite a newer one.
+let lastWrite: Promise<unknown> = Promise.resolve();
+
+function queueWrite<T>(write: () => Promise<T>) {
+  let queuedWrite = lastWrite.catch((_) => {}).then(write);
+  lastWrite = queuedWrite;
+  return queuedWrite;
+}
+
+function putSolveProgress(progress: SolveProgress) {
+  return queueWrite(() =>
+    storeRequest(PROGRESS_STORE, "readwrite", (store) => store.put(progress))
+  );
+}
+
+function deleteSolveProgress(crosswordHash: string) {
+  return queueWrite(() =>
+    storeRequest(PROGRESS_STORE, "readwrite", (store) =>
+      store.delete(crosswordHash)
+    )
+  );
+}
+
+interface Draft {
+  state: CreateCrosswordState;
+  updated: number;
+}
+
+function getDraft() {
+  return storeRequest(
+    DRAFT_STORE,
+    "readonly",
+    (store) => store.get(DRAFT_KEY) as IDBRequest<Draft | undefined>
+  );
+}
+
+function putDraft(draft: Draft) {
+  return queueWrite(() =>
+    storeRequest(DRAFT_STORE, "readwrite", (store) =>
+      store.put(draft, DRAFT_KEY)
+    )
+  );
+}
+
+function deleteDraft() {
+  return queueWrite(() =>
+    storeRequest(DRAFT_STORE, "readwrite", (store) => store.delete(DRAFT_KEY))
+  );
+}
+
+// The draft is saved once there have been no changes for this long, and whenever the page is hidden.
+const DRAFT_SAVE_DELAY_MS = 1000;
+
+// The elapsed time is saved with the progress at most this often, and whenever the page is hidden.
+const PROGRESS_TIME_SAVE_SECONDS = 15;
+
+function formatDuration(seconds: number) {
+  let minutes = Math.floor(seconds / 60);
+  let hours = Math.floor(minutes / 60);
+  let time = `${String(minutes % 60).padStart(2, "0")}:${String(
+    seconds % 60
+  ).padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${time}` : time;
+}
+
+const DIRECTIONS: Direction[] = ["X", "Y", "Z", "-X", "-Y", "-Z"];
+
+const DIRECTION_VECTORS: Record<Direction, [number, number, number]> = {
+  X: [1, 0, 0],
+  Y: [0, -1, 0],
+  Z: [0, 0, 1],
+  "-X": [-1, 0, 0],
+  "-Y": [0, 1, 0],
+  "-Z": [0, 0, -1],
+};
+
+// A short description of each direction as seen from the default camera.
+const DIRECTION_DESCRIPTIONS: Record<Direction, string> = {
+  X: "right",
+  Y: "down",
+  Z: "towards the viewer",
+  "-X": "left",
+  "-Y": "up",
+  "-Z": "away from the viewer",
+};
+
+// The vector must be one of the direction vectors. Rotating or mirroring a direction vector gives another one,
+// so words can always be transformed.
+function directionFromVector(vector: [number, number, number]): Direction {
+  return DIRECTIONS.find((direction) =>
+    DIRECTION_VECTORS[direction].every((value, i) => value === vector[i])
+  ) as Direction;
+}
+
+type WordTransform =
+  | {
+      type: "Translate";
+      offset: [number, number, number];
+    }
+  | {
+      type: "Rotate";
+      // The rotation is by 90 degrees counterclockwise about the axis when looking from the positive side.
+      axis: 0 | 1 | 2;
+      counterclockwise: boolean;
+      pivot: [number, number, number];
+    }
+  | {
+      type: "Mirror";
+      axis: 0 | 1 | 2;
+      pivot: [number, number, number];
+    };
+
+// Applies the linear part of the transform.
+function transformVector(
+  vector: [number, number, number],
+  transform: WordTransform
+): [number, number, number] {
+  let [x, y, z] = vector;
+  switch (transform.type) {
+    case "Translate": {
+      return [x, y, z];
+    }
+    case "Rotate": {
+      let sign = transform.counterclockwise ? 1 : -1;
+      switch (transform.axis) {
+        case 0: {
+          return [x, -sign * z, sign * y];
+        }
+        case 1: {
+          return [sign * z, y, -sign * x];
+        }
+        case 2: {
+          return [-sign * y, sign * x, z];
+        }
+      }
+    }
+    case "Mirror": {
+      let mirrored = [x, y, z] as [number, number, number];
+      mirrored[transform.axis] = -mirrored[transform.axis];
+      return mirrored;
+    }
+  }
+}
+
+function transformPosition(
+  position: [number, number, number],
+  transform: WordTransform
+): [number, number, number] {
+  if (transform.type === "Translate") {
+    return position.map((value, i) => value + transform.offset[i]) as [
+      number,
+      number,
+      number
+    ];
+  }
+
+  let { pivot } = transform;
+  let transformed = transformVector(
+    position.map((value, i) => value - pivot[i]) as [number, number, number],
+    transform
+  );
+  return transformed.map((value, i) => value + pivot[i]) as [
+    number,
+    number,
+    number
+  ];
+}
+
+// Returns the new start and direction of the words.
+function transformWords(
+  words: Word[],
+  indices: number[],
+  transform: WordTransform
+) {
+  let placements: {
+    index: number;
+    start: [number, number, number];
+    direction: Direction;
+  }[] = [];
+  for (const index of indices) {
+    let { start, direction } = words[index];
+    placements.push({
+      index,
+      start: transformPosition(start, transform),
+      direction: directionFromVector(
+        transformVector(DIRECTION_VECTORS[direction], transform)
+      ),
+    });
+  }
+  return placements;
+}
+
+// Returns null if the words have no letter blocks.
+function crosswordBounds(words: Word[]) {
+  let min: [number, number, number] = [Infinity, Infinity, Infinity];
+  let max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  for (const { word, start, direction } of words) {
+    for (let i = 0; i < word.length; i++) {
+      let position = wordLetterPosition(start, direction, i);
+      for (let j = 0; j < 3; j++) {
+        min[j] = Math.min(min[j], position[j]);
+        max[j] = Math.max(max[j], position[j]);
+      }
+    }
+  }
+  return min[0] === Infinity ? null : { min, max };
+}
+
+// The center of the bounding box, rounded down so that it is a block position.
+function crosswordCenter(words: Word[]): [number, number, number] {
+  let bounds = crosswordBounds(words);
+  if (bounds === null) {
+    return [0, 0, 0];
+  }
+  let { min, max } = bounds;
+  return min.map((value, i) => Math.floor((value + max[i]) / 2)) as [
+    number,
+    number,
+    number
+  ];
+}
+
+// The canonical order of words: by Z layer, then top to bottom, then left to right, then X, Y, Z direction.
+function compareWords(a: Word, b: Word) {
+  return (
+    a.start[2] - b.start[2] ||
+    b.start[1] - a.start[1] ||
+    a.start[0] - b.start[0] ||
+    DIRECTIONS.indexOf(a.direction) - DIRECTIONS.indexOf(b.direction)
+  );
+}
+
+interface OpenCrosswordProps {
+  onOpen: (crossword: Crossword) => void;
+  allowDraft?: boolean;
+  allowSolverFile?: boolean;
+}
+
+function OpenCrossword({
+  onOpen,
+  allowDraft,
+  allowSolverFile,
+}: OpenCrosswordProps) {
+  let [fileError, setFileError] = useState("");
+  let [diagnostics, setDiagnostics] = useState([] as Diagnostic[]);
+
+  return (
+    <div>
+      <input
+        type="file"
+        className="mb-1"
+        onChange={(e) => {
+          let fileInput = e.target as HTMLInputElement;
+          setDiagnostics([]);
+          if (fileInput.files && fileInput.files.length > 0) {
+            let file = fileInput.files[0];
+            file
+              .text()
+              .then((text) => {
+                try {
+                  let file = JSON.parse(text);
+                  if (isSolverFile(file)) {
+                    if (!allowSolverFile) {
+                      setFileError("Solver files can only be solved");
+                      return;
+                    }
+
+                    let crossword = parseSolverFile(file);
+                    setFileError("");
+                    onOpen(crossword);
+                    return;
+                  }
+
+                  if (allowDraft) {
+                    let crossword = parseDraftFile(file);
+                    setFileError("");
+                    onOpen(crossword);
+                    return;
+                  }
+
+                  let crossword = parseCrosswordFile(file);
+
+                  let diagnostics = validateCrossword(crossword);
+                  if (
+                    diagnostics.some(({ severity }) => severity === "error")
+                  ) {
+                    setFileError("Invalid crossword");
+                    setDiagnostics(diagnostics);
+                    return;
+                  }
+
+                  setFileError("");
+                  onOpen(crossword);
+                } catch (err) {
+                  setFileError("Invalid file");
+                  if (err instanceof z.ZodError) {
+                    setDiagnostics(schemaDiagnostics(err));
+                  }
+                }
+              })
+              .catch((_) => setFileError("Couldn't open the file"));
+          } else {
+            setFileError("");
+          }
+        }}
+      />
+      <span className="text-red-700">{fileError}</span>
+      <ValidationReport diagnostics={diagnostics} />
+    </div>
+  );
+}
+
+interface IntegerInputProps {
+  value: number;
+  onValueChange: (value: number) => void;
+}
+
+function IntegerInput({ value, onValueChange }: IntegerInputProps) {
+  // We need a seperate inputValue as we want to allow '' and '-' in the input while typing.
+  let [inputValue, setInputValue] = useState(value.toString());
+  if (value !== Number(inputValue)) {
+    setInputValue(value.toString());
+  }
+
+  return (
+    <input
+      className="w-9 border border-slate-300"
+      type="number"
+      value={inputValue}
+      onChange={(e) => {
+        let number = Number(e.target.value);
+        if (Math.floor(number) === number) {
+          setInputValue(e.target.value);
+          onValueChange(number);
+        }
+      }}
+      step="1"
+    />
+  );
+}
+
+// A seeded random number generator returning numbers in [0, 1).
+// https://stackoverflow.com/a/47593316
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Generated crosswords only use the usual reading directions.
+const GENERATOR_DIRECTIONS: Direction[] = ["X", "Y", "Z"];
+
+interface GeneratorEntry {
+  word: string;
+  description: string;
+}
+
+interface GeneratorOptions {
+  // The maximum size of the crossword along X, Y and Z.
+  boxSize: [number, number, number];
+  minIntersections: number;
+  seed: number;
+}
+
+interface GeneratorResult {
+  words: Word[];
+  unplaced: GeneratorEntry[];
+  // The words which were placed, but left out because they crossed fewer than minIntersections words.
+  underconnected: GeneratorEntry[];
+}
+
+// Removes the words which cross fewer than minIntersections of the other words, until every word left crosses enough.
+// Only the largest connected part of what is left is kept.
+function pruneUnderconnected(words: Word[], minIntersections: number) {
+  let wordsAt: Map<string, number[]> = new Map();
+  words.forEach(({ word, start, direction }, wordIndex) => {
+    for (let i = 0; i < word.length; i++) {
+      let position = wordLetterPosition(start, direction, i);
+      let key = `${position[0]} ${position[1]} ${position[2]}`;
+      wordsAt.set(key, [...(wordsAt.get(key) ?? []), wordIndex]);
+    }
+  });
+  let crossingWords = words.map(({ word, start, direction }, wordIndex) => {
+    let others: number[] = [];
+    for (let i = 0; i < word.length; i++) {
+      let position = wordLetterPosition(start, direction, i);
+      for (const other of wordsAt.get(
+        `${position[0]} ${position[1]} ${position[2]}`
+      ) as number[]) {
+        if (other !== wordIndex) {
+          others.push(other);
+        }
+      }
+    }
+    return others;
+  });
+
+  let kept = words.map(() => true);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    words.forEach((_, wordIndex) => {
+      if (
+        kept[wordIndex] &&
+        crossingWords[wordIndex].filter((other) => kept[other]).length <
+          minIntersections
+      ) {
+        kept[wordIndex] = false;
+        changed = true;
+      }
+    });
+  }
+
+  // Find the largest connected part with a depth first search.
+  let part: number[] = words.map(() => -1);
+  let partSizes: number[] = [];
+  words.forEach((_, wordIndex) => {
+    if (!kept[wordIndex] || part[wordIndex] !== -1) {
+      return;
+    }
+    let stack = [wordIndex];
+    part[wordIndex] = partSizes.length;
+    let size = 0;
+    while (stack.length > 0) {
+      let current = stack.pop() as number;
+      size++;
+      for (const other of crossingWords[current]) {
+        if (kept[other] && part[other] === -1) {
+          part[other] = partSizes.length;
+          stack.push(other);
+        }
+      }
+    }
+    partSizes.push(size);
+  });
+  let largestPart = partSizes.indexOf(Math.max(...partSizes));
+
+  let inLargestPart = (i: number) => kept[i] && part[i] === largestPart;
+  return {
+    words: words.filter((_, i) => inLargestPart(i)),
+    removed: words.filter((_, i) => !inLargestPart(i)),
+  };
+}
+
+// Places the words one by one, longest first, choosing the placement with the most crossings
+// and the smallest bounding box. Then the words with too few crossings are removed.
+function generateCrosswordAttempt(
+  entries: GeneratorEntry[],
+  { boxSize, minIntersections }: GeneratorOptions,
+  random: () => number
+) {
+  let order = entries
+    .map((entry) => ({ entry, key: entry.word.length + random() * 2 }))
+    .sort((a, b) => b.key - a.key)
+    .map(({ entry }) => entry);
+
+  let cells: Map<string, { letter: string; directions: Direction[] }> =
+    new Map();
+  let min: [number, number, number] = [0, 0, 0];
+  let max: [number, number, number] = [0, 0, 0];
+  let words: Word[] = [];
+  let unplaced: GeneratorEntry[] = [];
+
+  let positionKey = (position: [number, number, number]) =>
+    `${position[0]} ${position[1]} ${position[2]}`;
+
+  // Returns null if the word can't be placed, otherwise the number of crossings and the new bounds.
+  let evaluate = (
+    word: string,
+    start: [number, number, number],
+    direction: Direction
+  ) => {
+    let axis = directionAxis(direction);
+    let crossings = 0;
+    let newMin = [...min] as [number, number, number];
+    let newMax = [...max] as [number, number, number];
+
+    if (
+      cells.has(positionKey(wordLetterPosition(start, direction, -1))) ||
+      cells.has(positionKey(wordLetterPosition(start, direction, word.length)))
+    ) {
+      return null;
+    }
+
+    for (let i = 0; i < word.length; i++) {
+      let position = wordLetterPosition(start, direction, i);
+      let entry = cells.get(positionKey(position));
+      if (entry !== undefined) {
+        if (entry.letter !== word[i] || entry.directions.includes(direction)) {
+          return null;
+        }
+        crossings++;
+      } else {
+        // New blocks can't touch other blocks, otherwise they would be adjacent without a common word.
+        for (let otherAxis = 0; otherAxis < 3; otherAxis++) {
+          if (otherAxis === axis) {
+            continue;
+          }
+          for (const offset of [-1, 1]) {
+            let neighbour = [...position] as [number, number, number];
+            neighbour[otherAxis] += offset;
+            if (cells.has(positionKey(neighbour))) {
+              return null;
+            }
+          }
+        }
+      }
+
+      for (let j = 0; j < 3; j++) {
+        newMin[j] = Math.min(newMin[j], position[j]);
+        newMax[j] = Math.max(newMax[j], position[j]);
+      }
+    }
+
+    for (let j = 0; j < 3; j++) {
+      if (newMax[j] - newMin[j] + 1 > boxSize[j]) {
+        return null;
+      }
+    }
+
+    return { crossings, newMin, newMax };
+  };
+
+  let place = (
+    { word, description }: GeneratorEntry,
+    start: [number, number, number],
+    direction: Direction
+  ) => {
+    for (let i = 0; i < word.length; i++) {
+      let position = wordLetterPosition(start, direction, i);
+      let key = positionKey(position);
+      let entry = cells.get(key);
+      if (entry === undefined) {
+        cells.set(key, { letter: word[i], directions: [direction] });
+      } else {
+        entry.directions.push(direction);
+      }
+      for (let j = 0; j < 3; j++) {
+        min[j] = Math.min(min[j], position[j]);
+        max[j] = Math.max(max[j], position[j]);
+      }
+    }
+    words.push({ word, description, direction, start });
+  };
+
+  for (const entry of order) {
+    if (words.length === 0) {
+      let direction = GENERATOR_DIRECTIONS.find((direction) =>
+        evaluate(entry.word, [0, 0, 0], direction)
+      );
+      if (direction) {
+        place(entry, [0, 0, 0], direction);
+      } else {
+        unplaced.push(entry);
+      }
+      continue;
+    }
+
+    let best: null | {
+      start: [number, number, number];
+      direction: Direction;
+      score: [number, number, number];
+    } = null;
+    for (const [key, cell] of cells) {
+      let cellPosition = key.split(" ").map(Number) as [number, number, number];
+      for (let i = 0; i < entry.word.length; i++) {
+        if (entry.word[i] !== cell.letter) {
+          continue;
+        }
+
+        for (const direction of GENERATOR_DIRECTIONS) {
+          let start = wordLetterPosition(cellPosition, direction, -i);
+          let evaluation = evaluate(entry.word, start, direction);
+          if (evaluation === null) {
+            continue;
+          }
+
+          let volume = 1;
+          for (let j = 0; j < 3; j++) {
+            volume *= evaluation.newMax[j] - evaluation.newMin[j] + 1;
+          }
+          // Compare by the number of crossings, then the volume. The random part breaks ties.
+          let score: [number, number, number] = [
+            evaluation.crossings,
+            -volume,
+            random(),
+          ];
+          if (
+            best === null ||
+            score[0] > best.score[0] ||
+            (score[0] === best.score[0] &&
+              (score[1] > best.score[1] ||
+                (score[1] === best.score[1] && score[2] > best.score[2])))
+          ) {
+            best = { start, direction, score };
+          }
+        }
+      }
+    }
+
+    if (best) {
+      place(entry, best.start, best.direction);
+    } else {
+      unplaced.push(entry);
+    }
+  }
+
+  // A single word has nothing to cross.
+  let underconnected: Word[] = [];
+  if (entries.length > 1) {
+    let pruned = pruneUnderconnected(words, minIntersections);
+    words = pruned.words;
+    underconnected = pruned.removed;
+  }
+
+  let bounds = crosswordBounds(words);
+  let volume = 1;
+  for (let j = 0; j < 3; j++) {
+    volume *= bounds ? bounds.max[j] - bounds.min[j] + 1 : 0;
+  }
+
+  return {
+    words,
+    unplaced,
+    underconnected: underconnected.map(({ word, description }) => ({
+      word,
+      description,
+    })),
+    volume,
+  };
+}
+
+const GENERATOR_ATTEMPTS = 30;
+
+// Generates a connected crossword without letter clashes from the entries.
+// Several attempts are made with different word orders and the best one is returned.
+function generateCrossword(
+  entries: GeneratorEntry[],
+  options: GeneratorOptions
+): GeneratorResult {
+  let random = mulberry32(options.seed);
+  let best: null | {
+    result: GeneratorResult;
+    score: [number, number];
+  } = null;
+  for (let attempt = 0; attempt < GENERATOR_ATTEMPTS; attempt++) {
+    let { words, unplaced, underconnected, volume } = generateCrosswordAttempt(
+      entries,
+      options,
+      random
+    );
+    // Compare by the number of placed words, then the volume.
+    let score: [number, number] = [words.length, -volume];
+    if (
+      best === null ||
+      score[0] > best.score[0] ||
+      (score[0] === best.score[0] && score[1] > best.score[1])
+    ) {
+      best = { result: { words, unplaced, underconnected }, score };
+    }
+  }
+  return (best as { result: GeneratorResult }).result;
+}
+
+// Parses lines of the form "WORD: clue".
+function parseGeneratorEntries(text: string) {
+  let entries: GeneratorEntry[] = [];
+  let invalidLines: number[] = [];
+  text.split("\n").forEach((line, index) => {
+    if (line.trim().length === 0) {
+      return;
+    }
+
+    let separator = line.indexOf(":");
+    let word = (separator === -1 ? line : line.slice(0, separator))
+      .trim()
+      .toUpperCase();
+    let description = separator === -1 ? "" : line.slice(separator + 1).trim();
+    if (
+      word.length === 0 ||
+      description.length === 0 ||
+      word.includes(" ") ||
+      !onlyContainsUpperCaseAlphabetsAndSpaces(word)
+    ) {
+      invalidLines.push(index + 1);
+    } else {
+      entries.push({ word, description });
+    }
+  });
+  return { entries, invalidLines };
+}
+
+interface PlacementSuggestion {
+  start: [number, number, number];
+  direction: Direction;
+  crossings: number;
+  // The volume of the bounding box of the crossword with the word placed.
+  volume: number;
+}
+
+// The number of placement suggestions shown at a time.
+const PLACEMENT_SUGGESTIONS_PAGE_SIZE = 10;
+
+// Finds placements of the word which cross the other words without clashing letters,
+// best first: the most crossings, then the smallest bounding box.
+function suggestPlacements(words: Word[], wordIndex: number) {
+  let { word, start, direction } = words[wordIndex];
+  let otherLetters: Map<string, string> = new Map();
+  let min: [number, number, number] = [Infinity, Infinity, Infinity];
+  let max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  words.forEach((otherWord, otherIndex) => {
+    if (otherIndex === wordIndex) {
+      return;
+    }
+    for (let i = 0; i < otherWord.word.length; i++) {
+      let position = wordLetterPosition(
+        otherWord.start,
+        otherWord.direction,
+        i
+      );
+      let positionKey = `${position[0]} ${position[1]} ${position[2]}`;
+      let entry = otherLetters.get(positionKey);
+      if (entry === undefined || entry === " ") {
+        otherLetters.set(positionKey, otherWord.word[i]);
+      }
+      for (let j = 0; j < 3; j++) {
+        min[j] = Math.min(min[j], position[j]);
+        max[j] = Math.max(max[j], position[j]);
+      }
+    }
+  });
+
+  let suggestions: Map<string, PlacementSuggestion> = new Map();
+  for (const [positionKey, letter] of otherLetters) {
+    if (letter === " ") {
+      continue;
+    }
+
+    let cellPosition = positionKey.split(" ").map(Number) as [
+      number,
+      number,
+      number
+    ];
+    for (let i = 0; i < word.length; i++) {
+      if (word[i] !== letter) {
+        continue;
+      }
+
+      for (const suggestionDirection of DIRECTIONS) {
+        let suggestionStart = wordLetterPosition(
+          cellPosition,
+          suggestionDirection,
+          -i
+        );
+        let key = `${suggestionStart.join(" ")} ${suggestionDirection}`;
+        if (
+          suggestions.has(key) ||
+          (suggestionDirection === direction &&
+            suggestionStart.every((value, j) => value === start[j]))
+        ) {
+          continue;
+        }
+
+        let crossings = 0;
+        let clashes = false;
+        let newMin = [...min] as [number, number, number];
+        let newMax = [...max] as [number, number, number];
+        for (let j = 0; j < word.length; j++) {
+          let position = wordLetterPosition(
+            suggestionStart,
+            suggestionDirection,
+            j
+          );
+          let otherLetter = otherLetters.get(
+            `${position[0]} ${position[1]} ${position[2]}`
+          );
+          if (otherLetter !== undefined && otherLetter !== " ") {
+            if (word[j] === otherLetter) {
+              crossings++;
+            } else if (word[j] !== " ") {
+              clashes = true;
+              break;
+            }
+          }
+          for (let k = 0; k < 3; k++) {
+            newMin[k] = Math.min(newMin[k], position[k]);
+            newMax[k] = Math.max(newMax[k], position[k]);
+          }
+        }
+
+        if (!clashes && crossings > 0) {
+          let volume = 1;
+          for (let k = 0; k < 3; k++) {
+            volume *= newMax[k] - newMin[k] + 1;
+          }
+          suggestions.set(key, {
+            start: suggestionStart,
+            direction: suggestionDirection,
+            crossings,
+            volume,
+          });
+        }
+      }
+    }
+  }
+
+  return [...suggestions.values()].sort(
+    (a, b) => b.crossings - a.crossings || a.volume - b.volume
+  );
+}
+
+interface Dictionary {
+  name: string;
+  // Uppercase words without spaces.
+  words: string[];
+}
+
+function normalizeDictionaryWords(words: string[]) {
+  let normalizedWords: Set<string> = new Set();
+  for (const word of words) {
+    let normalizedWord = word.trim().toUpperCase();
+    if (
+      normalizedWord.length > 0 &&
+      !normalizedWord.includes(" ") &&
+      onlyContainsUpperCaseAlphabetsAndSpaces(normalizedWord)
+    ) {
+      normalizedWords.add(normalizedWord);
+    }
+  }
+  return [...normalizedWords];
+}
+
+let bundledDictionary: null | Promise<Dictionary> = null;
+
+// The bundled word list is large, so we only load it when it's first needed.
+function loadBundledDictionary() {
+  if (bundledDictionary === null) {
+    bundledDictionary = import("an-array-of-english-words/index.json").then(
+      ({ default: words }) => ({
+        name: "English",
+        words: normalizeDictionaryWords(words),
+      })
+    );
+  }
+  return bundledDictionary;
+}
+
+// Dictionary files are either a JSON array of words or a text file with one word per line.
+function parseDictionaryFile(name: string, text: string): Dictionary {
+  let words: string[];
+  try {
+    words = z.string().array().parse(JSON.parse(text));
+  } catch (err) {
+    words = text.split(/\r?\n/);
+  }
+  return { name, words: normalizeDictionaryWords(words) };
+}
+
+// The pattern has a letter for each block crossed by another word, and "?" for the other blocks.
+function crossingPattern(words: Word[], wordIndex: number) {
+  let { word, start, direction } = words[wordIndex];
+  let otherLetters: Map<string, string> = new Map();
+  words.forEach((otherWord, otherIndex) => {
+    if (otherIndex === wordIndex) {
+      return;
+    }
+    for (let i = 0; i < otherWord.word.length; i++) {
+      if (otherWord.word[i] === " ") {
+        continue;
+      }
+      let position = wordLetterPosition(
+        otherWord.start,
+        otherWord.direction,
+        i
+      );
+      otherLetters.set(
+        `${position[0]} ${position[1]} ${position[2]}`,
+        otherWord.word[i]
+      );
+    }
+  });
+
+  let pattern = "";
+  for (let i = 0; i < word.length; i++) {
+    let position = wordLetterPosition(start, direction, i);
+    pattern +=
+      otherLetters.get(`${position[0]} ${position[1]} ${position[2]}`) ?? "?";
+  }
+  return pattern;
+}
+
+const MAX_DICTIONARY_RESULTS = 100;
+
+function searchDictionary(dictionary: Dictionary, pattern: string) {
+  let results = [];
+  for (const word of dictionary.words) {
+    if (word.length !== pattern.length) {
+      continue;
+    }
+
+    let matches = true;
+    for (let i = 0; i < pattern.length; i++) {
+      if (pattern[i] !== "?" && pattern[i] !== word[i]) {
+        matches = false;
+        break;
+      }
+    }
+    if (matches) {
+      results.push(word);
+      if (results.length === MAX_DICTIONARY_RESULTS) {
+        break;
+      }
+    }
+  }
+  return results;
+}
+
+interface DictionarySearchProps {
+  words: Word[];
+  wordIndex: number;
+  dispatch: React.Dispatch<CreateCrosswordAction>;
+  dictionary: null | Dictionary;
+  setDictionary: (dictionary: Dictionary) => void;
+}
+
+function DictionarySearch({
+  words,
+  wordIndex,
+  dispatch,
+  dictionary,
+  setDictionary,
+}: DictionarySearchProps) {
+  let [pattern, setPattern] = useState(crossingPattern(words, wordIndex));
+  let [dictionaryError, setDictionaryError] = useState("");
+
+  useEffect(() => {
+    if (dictionary === null) {
+      loadBundledDictionary()
+        .then(setDictionary)
+        .catch((_) => setDictionaryError("Couldn't load the dictionary"));
+    }
+  }, [dictionary]);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2 items-center">
+        <input
+          value={pattern}
+          onChange={(e) => {
+            let newPattern = e.target.value.toUpperCase().replaceAll(" ", "?");
+            if (
+              onlyContainsUpperCaseAlphabetsAndSpaces(
+                newPattern.replaceAll("?", "")
+              )
+            ) {
+              setPattern(newPattern);
+            }
+          }}
+          placeholder="Pattern, e.g. H??O?"
+          className="border border-slate-300 p-0.5 w-32"
+        />
+        <button
+          className="underline"
+          onClick={() => {
+            setPattern(crossingPattern(words, wordIndex));
+          }}
+        >
+          Reset
+        </button>
+      </div>
+      <p className="text-sm">
+        Dictionary: {dictionary ? dictionary.name : "loading..."}
+      </p>
+      <input
+        type="file"
+        className="text-sm"
+        onChange={(e) => {
+          let fileInput = e.target as HTMLInputElement;
+          if (fileInput.files && fileInput.files.length > 0) {
+            let file = fileInput.files[0];
+            file
+              .text()
+              .then((text) => {
+                let dictionary = parseDictionaryFile(file.name, text);
+                if (dictionary.words.length === 0) {
+                  setDictionaryError("The file has no words");
+                } else {
+                  setDictionaryError("");
+                  setDictionary(dictionary);
+                }
+              })
+              .catch((_) => setDictionaryError("Couldn't open the file"));
+          }
+        }}
+      />
+      <span className="text-red-700">{dictionaryError}</span>
+      {dictionary && (
+        <div className="flex flex-wrap gap-x-2">
+          {searchDictionary(dictionary, pattern).map((candidate) => (
+            <button
+              key={candidate}
+              className="underline"
+              onClick={() => {
+                dispatch({
+                  type: "SetWord",
+                  word: candidate,
+                });
+              }}
+            >
+              {candidate}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AutofillProgress {
+  filled: number;
+  total: number;
+  steps: number;
+}
+
+const AUTOFILL_MAX_STEPS = 200000;
+
+// Fills the words containing spaces (slots) with dictionary words so that all crossing letters agree.
+// Letters which are already present, including the letters of words without spaces, are kept.
+// This is a backtracking search which always fills the slot with the fewest candidates first.
+// The generator yields the progress, and returns the filled words or null if no fill was found.
+function* autofillSlots(
+  words: Word[],
+  dictionary: Dictionary,
+  random: () => number
+): Generator<AutofillProgress, null | { index: number; word: string }[]> {
+  let slots = words
+    .map((_, index) => index)
+    .filter(
+      (index) => words[index].word.length > 0 && words[index].word.includes(" ")
+    );
+  let slotCells = slots.map((index) => {
+    let { word, start, direction } = words[index];
+    let cells = [];
+    for (let i = 0; i < word.length; i++) {
+      let position = wordLetterPosition(start, direction, i);
+      cells.push(`${position[0]} ${position[1]} ${position[2]}`);
+    }
+    return cells;
+  });
+
+  let letters: Map<string, string> = new Map();
+  // The number of filled slots which set each letter, so that we can remove letters when backtracking.
+  let letterCounts: Map<string, number> = new Map();
+  let usedWords: Set<string> = new Set();
+  words.forEach(({ word, start, direction }) => {
+    if (!word.includes(" ")) {
+      usedWords.add(word);
+    }
+    for (let i = 0; i < word.length; i++) {
+      if (word[i] !== " ") {
+        let position = wordLetterPosition(start, direction, i);
+        letters.set(`${position[0]} ${position[1]} ${position[2]}`, word[i]);
+      }
+    }
+  });
+
+  let fits = (candidate: string, slot: number) =>
+    slotCells[slot].every((cell, i) => {
+      let letter = letters.get(cell);
+      return letter === undefined || letter === candidate[i];
+    });
+
+  // The candidates are shuffled so that different runs give different fills.
+  // https://en.wikipedia.org/wiki/Fisher%E2%80%93Yates_shuffle
+  let candidates = slots.map((_, slot) => {
+    let slotCandidates = dictionary.words.filter(
+      (candidate) =>
+        candidate.length === slotCells[slot].length && fits(candidate, slot)
+    );
+    for (let i = slotCandidates.length - 1; i > 0; i--) {
+      let j = Math.floor(random() * (i + 1));
+      [slotCandidates[i], slotCandidates[j]] = [
+        slotCandidates[j],
+        slotCandidates[i],
+      ];
+    }
+    return slotCandidates;
+  });
+
+  let fill: (null | string)[] = slots.map(() => null);
+  let filled = 0;
+  let steps = 0;
+
+  let assign = (slot: number, candidate: string) => {
+    fill[slot] = candidate;
+    filled++;
+    usedWords.add(candidate);
+    slotCells[slot].forEach((cell, i) => {
+      letters.set(cell, candidate[i]);
+      letterCounts.set(cell, (letterCounts.get(cell) ?? 0) + 1);
+    });
+  };
+
+  let unassign = (slot: number) => {
+    usedWords.delete(fill[slot] as string);
+    fill[slot] = null;
+    filled--;
+    for (const cell of slotCells[slot]) {
+      let count = letterCounts.get(cell) as number;
+      if (count === 1) {
+        letterCounts.delete(cell);
+        letters.delete(cell);
+      } else {
+        letterCounts.set(cell, count - 1);
+      }
+    }
+  };
+
+  function* search(): Generator<AutofillProgress, boolean> {
+    if (filled === slots.length) {
+      return true;
+    }
+
+    let bestSlot = -1;
+    let bestCandidates: string[] = [];
+    for (let slot = 0; slot < slots.length; slot++) {
+      if (fill[slot] !== null) {
+        continue;
+      }
+      let slotCandidates = candidates[slot].filter(
+        (candidate) => !usedWords.has(candidate) && fits(candidate, slot)
+      );
+      if (slotCandidates.length === 0) {
+        return false;
+      }
+      if (bestSlot === -1 || slotCandidates.length < bestCandidates.length) {
+        bestSlot = slot;
+        bestCandidates = slotCandidates;
+      }
+    }
+
+    for (const candidate of bestCandidates) {
+      steps++;
+      if (steps > AUTOFILL_MAX_STEPS) {
+        return false;
+      }
+      yield { filled, total: slots.length, steps };
+
+      assign(bestSlot, candidate);
+      if (yield* search()) {
+        return true;
+      }
+      unassign(bestSlot);
+    }
+    return false;
+  }
+
+  if (!(yield* search())) {
+    return null;
+  }
+  return slots.map((index, slot) => ({ index, word: fill[slot] as string }));
+}
+
+interface AutofillProps {
+  words: Word[];
+  dispatch: React.Dispatch<CreateCrosswordAction>;
+  dictionary: null | Dictionary;
+  setDictionary: (dictionary: Dictionary) => void;
+}
+
+function Autofill({
+  words,
+  dispatch,
+  dictionary,
+  setDictionary,
+}: AutofillProps) {
+  let [progress, setProgress] = useState(null as null | AutofillProgress);
+  let [message, setMessage] = useState("");
+  let cancelled = useRef(false);
+  // The search fills the slots of the words it started with,
+  // so it is stopped when the words change while it runs.
+  let currentWords = useRef(words);
+  currentWords.current = words;
+
+  useEffect(() => {
+    return () => {
+      cancelled.current = true;
+    };
+  }, []);
+
+  async function run() {
+    cancelled.current = false;
+    if (!words.some(({ word }) => word.length > 0 && word.includes(" "))) {
+      setMessage("There are no slots to fill");
+      return;
+    }
 
-                      let position = wordLetterPosition(start, direction, i);
-                      let positionKey = `${position[0]} ${position[1]} ${position[2]}`;
+    setMessage("");
+    let autofillDictionary = dictionary;
+    if (autofillDictionary === null) {
+      try {
+        autofillDictionary = await loadBundledDictionary();
+        setDictionary(autofillDictionary);
+      } catch (err) {
+        setMessage("Couldn't load the dictionary");
+        return;
+      }
+      if (currentWords.current !== words) {
+        setMessage("The words changed, so autofill was stopped");
+        return;
+      }
+    }
 
-                      let entry = letters.get(positionKey);
-                      if (entry === undefined) {
-                        letters.set(positionKey, word[i]);
-                      } else if (entry !== word[i]) {
-                        setFileError("Invalid crossword");
-                        return;
-                      }
-                    }
-                  }
+    let search = autofillSlots(
+      words,
+      autofillDictionary,
+      mulberry32(Date.now())
+    );
+    setProgress({ filled: 0, total: 0, steps: 0 });
+    while (true) {
+      // Search for a while, then let the page update.
+      let startTime = performance.now();
+      let result = search.next();
+      while (!result.done && performance.now() - startTime < 50) {
+        result = search.next();
+      }
 
-                  setFileError("");
-                  onOpen(crossword);
-                } catch (err) {
-                  setFileError("Invalid file");
-                }
-              })
-              .catch((_) => setFileError("Couldn't open the file"));
-          } else {
-            setFileError("");
-          }
-        }}
-      />
-      <span className="text-red-700">{fileError}</span>
+      if (result.done) {
+        setProgress(null);
+        if (result.value === null) {
+          setMessage("Couldn't fill the slots");
+        } else {
+          dispatch({
+            type: "SetWords",
+            changes: result.value,
+          });
+        }
+        return;
+      }
+
+      setProgress(result.value);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (cancelled.current) {
+        setProgress(null);
+        return;
+      }
+      if (currentWords.current !== words) {
+        setProgress(null);
+        setMessage("The words changed, so autofill was stopped");
+        return;
+      }
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      {progress === null && (
+        <button className="underline" onClick={run}>
+          Autofill slots
+        </button>
+      )}
+      {progress !== null && (
+        <div className="flex justify-between">
+          <span>
+            Filled {progress.filled}/{progress.total} ({progress.steps} steps)
+          </span>
+          <button
+            className="underline"
+            onClick={() => {
+              cancelled.current = true;
+            }}
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+      <p className="text-amber-700">{message}</p>
     </div>
   );
 }
 
-interface IntegerInputProps {
-  value: number;
-  onValueChange: (value: number) => void;
+interface GenerateCrosswordProps {
+  onGenerate: (words: Word[]) => void;
 }
 
-function IntegerInput({ value, onValueChange }: IntegerInputProps) {
-  // We need a seperate inputValue as we want to allow '' and '-' in the input while typing.
-  let [inputValue, setInputValue] = useState(value.toString());
-  if (value !== Number(inputValue)) {
-    setInputValue(value.toString());
-  }
+function GenerateCrossword({ onGenerate }: GenerateCrosswordProps) {
+  let [text, setText] = useState("");
+  let [boxSize, setBoxSize] = useState([10, 10, 10] as [
+    number,
+    number,
+    number
+  ]);
+  let [minIntersections, setMinIntersections] = useState(1);
+  let [seed, setSeed] = useState(1);
+  let [message, setMessage] = useState("");
 
   return (
-    <input
-      className="w-9 border border-slate-300"
-      type="number"
-      value={inputValue}
-      onChange={(e) => {
-        let number = Number(e.target.value);
-        if (Math.floor(number) === number) {
-          setInputValue(e.target.value);
-          onValueChange(number);
-        }
-      }}
-      step="1"
-    />
+    <div className="space-y-1">
+      <p>Words (one "WORD: clue" per line):</p>
+      <textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+        }}
+        rows={6}
+        className="border border-slate-300 w-full"
+      ></textarea>
+      <p>Maximum size:</p>
+      <div className="flex gap-3">
+        {["X", "Y", "Z"].map((dimension, i) => (
+          <div className="flex gap-2" key={i}>
+            <label>{dimension}:</label>
+            <IntegerInput
+              value={boxSize[i]}
+              onValueChange={(value) => {
+                let newBoxSize = [...boxSize] as [number, number, number];
+                newBoxSize[i] = Math.max(value, 1);
+                setBoxSize(newBoxSize);
+              }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <label>Minimum crossings per word:</label>
+        <IntegerInput
+          value={minIntersections}
+          onValueChange={(value) => {
+            setMinIntersections(Math.max(value, 0));
+          }}
+        />
+      </div>
+      <div className="flex gap-2">
+        <label>Seed:</label>
+        <IntegerInput value={seed} onValueChange={setSeed} />
+      </div>
+      <button
+        className="underline"
+        onClick={() => {
+          let { entries, invalidLines } = parseGeneratorEntries(text);
+          if (invalidLines.length > 0) {
+            setMessage(`Invalid lines: ${invalidLines.join(", ")}`);
+            return;
+          }
+          if (entries.length === 0) {
+            setMessage("No words");
+            return;
+          }
+
+          let { words, unplaced, underconnected } = generateCrossword(entries, {
+            boxSize,
+            minIntersections,
+            seed,
+          });
+          let messages = [];
+          if (unplaced.length > 0) {
+            messages.push(
+              `Couldn't place: ${unplaced.map(({ word }) => word).join(", ")}`
+            );
+          }
+          if (underconnected.length > 0) {
+            messages.push(
+              `Left out with fewer than ${minIntersections} crossings: ${underconnected
+                .map(({ word }) => word)
+                .join(", ")}`
+            );
+          }
+          setMessage(messages.join(". "));
+          onGenerate(words);
+        }}
+      >
+        Generate
+      </button>
+      <p className="text-amber-700">{message}</p>
+    </div>
   );
 }
 
 interface WordPositionControlsProps {
   orbitCenter: [number, number, number];
+  spacing: number;
   dispatch: React.Dispatch<CreateCrosswordAction>;
 }
 
@@ -274,23 +3052,27 @@ interface WordPositionControlsProps {
 // To prevent this we use memo.
 const WordPositionControls = memo(function ({
   orbitCenter,
+  spacing,
   dispatch,
 }: WordPositionControlsProps) {
   let transformControlsRef = useRef(null);
+  // The controls are drawn in the exploded view, so their position is scaled back to block positions.
+  let blockPosition = (transformControls: any) =>
+    [
+      Math.round(transformControls.worldPosition.x / spacing),
+      Math.round(transformControls.worldPosition.y / spacing),
+      Math.round(transformControls.worldPosition.z / spacing),
+    ] as [number, number, number];
   return (
     <TransformControls
-      position={orbitCenter}
-      translationSnap={1}
+      position={scalePosition(orbitCenter, spacing)}
+      translationSnap={spacing}
       ref={transformControlsRef}
       onObjectChange={() => {
         let transformControls = transformControlsRef.current as any;
         dispatch({
           type: "Drag",
-          center: [
-            transformControls.worldPosition.x,
-            transformControls.worldPosition.y,
-            transformControls.worldPosition.z,
-          ],
+          center: blockPosition(transformControls),
         });
       }}
       onMouseUp={() => {
@@ -302,11 +3084,7 @@ const WordPositionControls = memo(function ({
         ] as [number, number, number];
         dispatch({
           type: "DragEnd",
-          center: [
-            transformControls.worldPosition.x,
-            transformControls.worldPosition.y,
-            transformControls.worldPosition.z,
-          ],
+          center: blockPosition(transformControls),
         });
       }}
     >
@@ -327,55 +3105,57 @@ interface CreateCrosswordMenuProps {
       lettersBy: number[];
     }
   >;
+  warnings: Diagnostic[];
+  setPlacementPreview: (placement: null | PlacementSuggestion) => void;
+  flyToWord: (wordIndex: number) => void;
 }
 
 function CreateCrosswordMenu({
   createCrosswordState,
   dispatch,
   letters,
+  warnings,
+  setPlacementPreview,
+  flyToWord,
 }: CreateCrosswordMenuProps) {
   let [showOpenCrossword, setShowOpenCrossword] = useState(false);
+  let [showGenerator, setShowGenerator] = useState(false);
+  let [showSuggestions, setShowSuggestions] = useState(false);
+  let [showDictionary, setShowDictionary] = useState(false);
+  let [dictionary, setDictionary] = useState(null as null | Dictionary);
+  let [shareMessage, setShareMessage] = useState("");
+  let [showMetadata, setShowMetadata] = useState(false);
   let {
+    crossword,
     crossword: { name, words },
     currentWordIndex,
+    selectedWordIndices,
+    orbitCenter,
   } = createCrosswordState;
-  let wordValidity: boolean[] = new Array(words.length).fill(true);
-  for (let i = 0; i < words.length; i++) {
-    if (words[i].description.length === 0) {
-      wordValidity[i] = false;
-      continue;
-    }
-
-    if (words[i].word.length === 0) {
-      wordValidity[i] = false;
-      continue;
-    }
-
-    for (let j = 0; j < words[i].word.length; j++) {
-      if (words[i].word[j] === " ") {
-        wordValidity[i] = false;
-        break;
+  let metadata = crossword.metadata ?? {};
+  let diagnostics = useMemo(
+    () => [...validateCrossword(crossword), ...warnings],
+    [crossword, warnings]
+  );
+  let wordValidity = useMemo(() => {
+    let wordValidity: boolean[] = new Array(words.length).fill(true);
+    for (const { severity, wordIndex } of diagnostics) {
+      if (severity === "error" && wordIndex !== null) {
+        wordValidity[wordIndex] = false;
       }
     }
-  }
-  for (const { letter, lettersBy } of letters.values()) {
-    if (letter === "?") {
-      lettersBy.forEach((i: number) => {
-        wordValidity[i] = false;
-      });
+    // Both the words of a letter clash are invalid.
+    for (const { letter, lettersBy } of letters.values()) {
+      if (letter === "?") {
+        lettersBy.forEach((i: number) => {
+          wordValidity[i] = false;
+        });
+      }
     }
-  }
+    return wordValidity;
+  }, [words, diagnostics, letters]);
 
-  let allowSave = true;
-  for (let i = 0; i < words.length; i++) {
-    if (!wordValidity[i]) {
-      allowSave = false;
-      break;
-    }
-  }
-  if (name.length === 0 || words.length === 0) {
-    allowSave = false;
-  }
+  let allowSave = diagnostics.every(({ severity }) => severity !== "error");
 
   return (
     <div className="border-r p-3 space-y-3 w-60">
@@ -396,7 +3176,9 @@ function CreateCrosswordMenu({
             <div className="border-b pb-3">
               <p className="mb-1">Open file to edit: </p>
               <OpenCrossword
+                allowDraft={true}
                 onOpen={(crossword) => {
+                  addToLibrary(crossword).catch((_) => {});
                   dispatch({
                     type: "SetCrossword",
                     crossword,
@@ -423,6 +3205,33 @@ function CreateCrosswordMenu({
           </>
         )}
       </div>
+      <div className="border-b pb-3">
+        <button
+          onClick={() => {
+            setShowGenerator(!showGenerator);
+          }}
+        >
+          <span className="flex gap-2 items-center">
+            <FaMagic />{" "}
+            {showGenerator ? "Hide generator" : "Generate crossword"}
+          </span>
+        </button>
+        {showGenerator && (
+          <div className="mt-1">
+            <GenerateCrossword
+              onGenerate={(words) => {
+                dispatch({
+                  type: "SetCrossword",
+                  crossword: {
+                    ...crossword,
+                    words,
+                  },
+                });
+              }}
+            />
+          </div>
+        )}
+      </div>
       <input
         value={name}
         onChange={(e) => {
@@ -434,6 +3243,82 @@ function CreateCrosswordMenu({
         placeholder="Name"
         className="border border-slate-300 mb-3 p-0.5"
       />
+      <div className="border-b pb-3">
+        <button
+          onClick={() => {
+            setShowMetadata(!showMetadata);
+          }}
+        >
+          {showMetadata ? "Hide details" : "Show details"}
+        </button>
+        {showMetadata && (
+          <div className="space-y-1 mt-1">
+            <input
+              value={metadata.author ?? ""}
+              onChange={(e) => {
+                dispatch({
+                  type: "SetMetadata",
+                  metadata: { ...metadata, author: e.target.value },
+                });
+              }}
+              placeholder="Author"
+              className="border border-slate-300 p-0.5"
+            />
+            <div className="flex gap-2">
+              <label htmlFor="difficulty">Difficulty:</label>
+              <select
+                id="difficulty"
+                value={metadata.difficulty ?? ""}
+                onChange={(e) => {
+                  dispatch({
+                    type: "SetMetadata",
+                    metadata: {
+                      ...metadata,
+                      difficulty:
+                        e.target.value === ""
+                          ? undefined
+                          : (e.target.value as Difficulty),
+                    },
+                  });
+                }}
+                className="border border-slate-300"
+              >
+                <option value="">-</option>
+                <option value="Easy">Easy</option>
+                <option value="Medium">Medium</option>
+                <option value="Hard">Hard</option>
+              </select>
+            </div>
+            <input
+              value={metadata.copyright ?? ""}
+              onChange={(e) => {
+                dispatch({
+                  type: "SetMetadata",
+                  metadata: { ...metadata, copyright: e.target.value },
+                });
+              }}
+              placeholder="Copyright"
+              className="border border-slate-300 p-0.5"
+            />
+            <textarea
+              value={metadata.notes ?? ""}
+              onChange={(e) => {
+                dispatch({
+                  type: "SetMetadata",
+                  metadata: { ...metadata, notes: e.target.value },
+                });
+              }}
+              placeholder="Notes"
+              className="border border-slate-300"
+            ></textarea>
+            {metadata.createdAt && (
+              <p>
+                Created: {new Date(metadata.createdAt).toLocaleDateString()}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
       {currentWordIndex === null && (
         <>
           <div className="flex justify-between mb-3">
@@ -454,13 +3339,24 @@ function CreateCrosswordMenu({
                 <button
                   className={
                     "mr-3 text-ellipsis overflow-hidden " +
-                    (wordValidity[index] ? "" : "text-red-700")
+                    (wordValidity[index] ? "" : "text-red-700 ") +
+                    (selectedWordIndices.includes(index)
+                      ? "px-1 rounded bg-sky-100"
+                      : "")
                   }
-                  onClick={() => {
-                    dispatch({
-                      type: "SelectWord",
-                      index,
-                    });
+                  onClick={(e) => {
+                    if (e.shiftKey) {
+                      dispatch({
+                        type: "ToggleSelection",
+                        indices: [index],
+                      });
+                    } else {
+                      dispatch({
+                        type: "SelectWord",
+                        index,
+                      });
+                      flyToWord(index);
+                    }
                   }}
                 >
                   {word.word.length > 0 ? word.word.replaceAll(" ", "_") : "_"}
@@ -478,17 +3374,61 @@ function CreateCrosswordMenu({
               </div>
             ))}
           </div>
+          {words.length > 0 && (
+            <CrosswordTransforms words={words} dispatch={dispatch} />
+          )}
+          {selectedWordIndices.length > 0 && (
+            <GroupTransforms
+              selectedWordIndices={selectedWordIndices}
+              pivot={orbitCenter}
+              dispatch={dispatch}
+            />
+          )}
+          <div className="border-t pt-3">
+            <Autofill
+              words={words}
+              dispatch={dispatch}
+              dictionary={dictionary}
+              setDictionary={setDictionary}
+            />
+          </div>
+          {diagnostics.length > 0 && (
+            <div className="border-t pt-3">
+              <ValidationReport
+                diagnostics={diagnostics}
+                onSelect={({ wordIndex }) => {
+                  if (wordIndex !== null) {
+                    dispatch({
+                      type: "SelectWord",
+                      index: wordIndex,
+                    });
+                  }
+                }}
+              />
+            </div>
+          )}
           {allowSave && (
             <div className="flex justify-center">
               <a
                 onClick={(e) => {
+                  // The creation date is set when the crossword is first saved.
+                  let savedCrossword = crossword;
+                  if (metadata.createdAt === undefined) {
+                    savedCrossword = {
+                      ...crossword,
+                      metadata: {
+                        ...metadata,
+                        createdAt: new Date().toISOString(),
+                      },
+                    };
+                    dispatch({
+                      type: "SetMetadata",
+                      metadata: savedCrossword.metadata as CrosswordMetadata,
+                    });
+                  }
+
                   const file = new File(
-                    [
-                      JSON.stringify({
-                        name,
-                        words,
-                      }),
-                    ],
+                    [JSON.stringify(crosswordFile(savedCrossword))],
                     `${name}.json`,
                     {
                       type: "application/json",
@@ -496,6 +3436,7 @@ function CreateCrosswordMenu({
                   );
                   let link = e.target as HTMLAnchorElement;
                   link.href = URL.createObjectURL(file);
+                  addToLibrary(savedCrossword).catch((_) => {});
                 }}
                 download={`${name}.json`}
                 className="cursor-pointer underline"
@@ -504,6 +3445,64 @@ function CreateCrosswordMenu({
               </a>
             </div>
           )}
+          {allowSave && (
+            <div className="flex justify-center">
+              <a
+                onClick={(e) => {
+                  const file = new File(
+                    [JSON.stringify(solverFile(crossword))],
+                    `${name} (solver).json`,
+                    {
+                      type: "application/json",
+                    }
+                  );
+                  let link = e.target as HTMLAnchorElement;
+                  link.href = URL.createObjectURL(file);
+                }}
+                download={`${name} (solver).json`}
+                className="cursor-pointer underline"
+              >
+                Export solver file
+              </a>
+            </div>
+          )}
+          {!allowSave && (
+            <div className="flex justify-center">
+              <a
+                onClick={(e) => {
+                  const file = new File(
+                    [JSON.stringify(crosswordFile(crossword))],
+                    `${name || "Untitled"} (draft).json`,
+                    {
+                      type: "application/json",
+                    }
+                  );
+                  let link = e.target as HTMLAnchorElement;
+                  link.href = URL.createObjectURL(file);
+                }}
+                download={`${name || "Untitled"} (draft).json`}
+                className="cursor-pointer underline"
+              >
+                Export draft
+              </a>
+            </div>
+          )}
+          {allowSave && (
+            <div className="flex flex-col items-center">
+              <button
+                className="underline"
+                onClick={() => {
+                  navigator.clipboard
+                    .writeText(crosswordShareLink(crossword))
+                    .then(() => setShareMessage("Link copied"))
+                    .catch((_) => setShareMessage("Couldn't copy the link"));
+                }}
+              >
+                Copy share link
+              </button>
+              <span>{shareMessage}</span>
+            </div>
+          )}
         </>
       )}
       {currentWordIndex !== null && (
@@ -524,9 +3523,9 @@ function CreateCrosswordMenu({
           </div>
           <div>
             <p>Direction:</p>
-            <div className="flex gap-3 mb-3">
-              {["X", "Y", "Z"].map((direction) => (
-                <span key={direction}>
+            <div className="flex flex-wrap gap-x-3 mb-3">
+              {DIRECTIONS.map((direction) => (
+                <span key={direction} title={DIRECTION_DESCRIPTIONS[direction]}>
                   <input
                     type="radio"
                     name="direction"
@@ -537,7 +3536,7 @@ function CreateCrosswordMenu({
                       if (e.target.checked) {
                         dispatch({
                           type: "SetDirection",
-                          direction: direction as "X" | "Y" | "Z",
+                          direction,
                         });
                       }
                     }}
@@ -603,10 +3602,298 @@ function CreateCrosswordMenu({
                   description: e.target.value,
                 });
               }}
-              className="border border-slate-300"
-            ></textarea>
-          </div>
-        </>
+              className="border border-slate-300"
+            ></textarea>
+          </div>
+          <div>
+            <button
+              onClick={() => {
+                setShowSuggestions(!showSuggestions);
+                setPlacementPreview(null);
+              }}
+            >
+              {showSuggestions ? "Hide suggestions" : "Suggest placements"}
+            </button>
+            {showSuggestions && (
+              <PlacementSuggestions
+                words={words}
+                wordIndex={currentWordIndex}
+                dispatch={dispatch}
+                setPlacementPreview={setPlacementPreview}
+              />
+            )}
+          </div>
+          <div>
+            <button
+              onClick={() => {
+                setShowDictionary(!showDictionary);
+              }}
+            >
+              {showDictionary ? "Hide dictionary" : "Search dictionary"}
+            </button>
+            {showDictionary && (
+              <DictionarySearch
+                words={words}
+                wordIndex={currentWordIndex}
+                dispatch={dispatch}
+                dictionary={dictionary}
+                setDictionary={setDictionary}
+                key={currentWordIndex}
+              />
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface CrosswordTransformsProps {
+  words: Word[];
+  dispatch: React.Dispatch<CreateCrosswordAction>;
+}
+
+function CrosswordTransforms({ words, dispatch }: CrosswordTransformsProps) {
+  let indices = words.map((_, i) => i);
+
+  let transform = (transform: WordTransform) => {
+    dispatch({
+      type: "TransformWords",
+      indices,
+      transform,
+    });
+  };
+
+  return (
+    <div className="border-t pt-3 space-y-1">
+      <p>Whole crossword:</p>
+      <div className="flex gap-3 items-center">
+        <span>Rotate:</span>
+        {(["X", "Y", "Z"] as const).map((dimension, axis) => (
+          <span className="flex gap-1" key={dimension}>
+            {dimension}
+            <button
+              title="Rotate counterclockwise"
+              onClick={() => {
+                transform({
+                  type: "Rotate",
+                  axis: axis as 0 | 1 | 2,
+                  counterclockwise: true,
+                  pivot: crosswordCenter(words),
+                });
+              }}
+            >
+              ⟲
+            </button>
+            <button
+              title="Rotate clockwise"
+              onClick={() => {
+                transform({
+                  type: "Rotate",
+                  axis: axis as 0 | 1 | 2,
+                  counterclockwise: false,
+                  pivot: crosswordCenter(words),
+                });
+              }}
+            >
+              ⟳
+            </button>
+          </span>
+        ))}
+      </div>
+      <div className="flex gap-3">
+        <button
+          className="underline"
+          onClick={() => {
+            let center = crosswordCenter(words);
+            if (center.every((value) => value === 0)) {
+              return;
+            }
+            transform({
+              type: "Translate",
+              offset: center.map((value) => -value) as [number, number, number],
+            });
+          }}
+        >
+          Re-centre
+        </button>
+        <button
+          className="underline"
+          onClick={() => {
+            dispatch({
+              type: "SortWords",
+            });
+          }}
+        >
+          Sort words
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface GroupTransformsProps {
+  selectedWordIndices: number[];
+  pivot: [number, number, number];
+  dispatch: React.Dispatch<CreateCrosswordAction>;
+}
+
+function GroupTransforms({
+  selectedWordIndices,
+  pivot,
+  dispatch,
+}: GroupTransformsProps) {
+  let transform = (transform: WordTransform) => {
+    dispatch({
+      type: "TransformWords",
+      indices: selectedWordIndices,
+      transform,
+    });
+  };
+
+  return (
+    <div className="border-t pt-3 space-y-1">
+      <div className="flex justify-between">
+        <span>
+          {selectedWordIndices.length}{" "}
+          {selectedWordIndices.length === 1 ? "word" : "words"} selected
+        </span>
+        <button
+          className="underline"
+          onClick={() => {
+            dispatch({
+              type: "ClearSelection",
+            });
+          }}
+        >
+          Clear
+        </button>
+      </div>
+      <p>Pivot: {formatPosition(pivot)}</p>
+      {(["X", "Y", "Z"] as const).map((dimension, axis) => (
+        <div className="flex gap-2 items-center" key={dimension}>
+          <span className="w-4">{dimension}:</span>
+          <button
+            title="Move back"
+            onClick={() => {
+              let offset: [number, number, number] = [0, 0, 0];
+              offset[axis] = -1;
+              transform({ type: "Translate", offset });
+            }}
+          >
+            -1
+          </button>
+          <button
+            title="Move forward"
+            onClick={() => {
+              let offset: [number, number, number] = [0, 0, 0];
+              offset[axis] = 1;
+              transform({ type: "Translate", offset });
+            }}
+          >
+            +1
+          </button>
+          <button
+            title="Rotate counterclockwise"
+            onClick={() => {
+              transform({
+                type: "Rotate",
+                axis: axis as 0 | 1 | 2,
+                counterclockwise: true,
+                pivot,
+              });
+            }}
+          >
+            ⟲
+          </button>
+          <button
+            title="Rotate clockwise"
+            onClick={() => {
+              transform({
+                type: "Rotate",
+                axis: axis as 0 | 1 | 2,
+                counterclockwise: false,
+                pivot,
+              });
+            }}
+          >
+            ⟳
+          </button>
+          <button
+            className="underline"
+            onClick={() => {
+              transform({ type: "Mirror", axis: axis as 0 | 1 | 2, pivot });
+            }}
+          >
+            Mirror
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface PlacementSuggestionsProps {
+  words: Word[];
+  wordIndex: number;
+  dispatch: React.Dispatch<CreateCrosswordAction>;
+  setPlacementPreview: (placement: null | PlacementSuggestion) => void;
+}
+
+function PlacementSuggestions({
+  words,
+  wordIndex,
+  dispatch,
+  setPlacementPreview,
+}: PlacementSuggestionsProps) {
+  let suggestions = useMemo(
+    () => suggestPlacements(words, wordIndex),
+    [words, wordIndex]
+  );
+  let [shownCount, setShownCount] = useState(PLACEMENT_SUGGESTIONS_PAGE_SIZE);
+
+  useEffect(() => {
+    setShownCount(PLACEMENT_SUGGESTIONS_PAGE_SIZE);
+  }, [wordIndex]);
+
+  if (suggestions.length === 0) {
+    return <p>No placements cross the other words.</p>;
+  }
+
+  return (
+    <div className="space-y-1" onMouseLeave={() => setPlacementPreview(null)}>
+      {suggestions.slice(0, shownCount).map((suggestion, index) => (
+        <button
+          key={index}
+          className="flex justify-between w-full p-1 rounded hover:bg-sky-50"
+          onMouseEnter={() => setPlacementPreview(suggestion)}
+          onClick={() => {
+            setPlacementPreview(null);
+            dispatch({
+              type: "SetPlacement",
+              start: suggestion.start,
+              direction: suggestion.direction,
+            });
+          }}
+        >
+          <span>
+            {suggestion.direction} {formatPosition(suggestion.start)}
+          </span>
+          <span>
+            {suggestion.crossings}{" "}
+            {suggestion.crossings === 1 ? "crossing" : "crossings"}
+          </span>
+        </button>
+      ))}
+      {suggestions.length > shownCount && (
+        <button
+          className="underline"
+          onClick={() => {
+            setShownCount(shownCount + PLACEMENT_SUGGESTIONS_PAGE_SIZE);
+          }}
+        >
+          Show more ({suggestions.length - shownCount} more)
+        </button>
       )}
     </div>
   );
@@ -619,6 +3906,7 @@ function Navbar() {
       <div className="flex gap-5">
         <Link to="/">Solve</Link>
         <Link to="/create">Create</Link>
+        <Link to="/library">Library</Link>
         <Link to="/tutorial">Tutorial</Link>
       </div>
     </div>
@@ -634,6 +3922,10 @@ type CreateCrosswordAction =
       type: "SetName";
       name: string;
     }
+  | {
+      type: "SetMetadata";
+      metadata: CrosswordMetadata;
+    }
   | {
       type: "NewWord";
     }
@@ -658,7 +3950,12 @@ type CreateCrosswordAction =
     }
   | {
       type: "SetDirection";
-      direction: "X" | "Y" | "Z";
+      direction: Direction;
+    }
+  | {
+      type: "SetPlacement";
+      start: [number, number, number];
+      direction: Direction;
     }
   | {
       type: "SetWord";
@@ -668,6 +3965,25 @@ type CreateCrosswordAction =
       type: "SetDescription";
       description: string;
     }
+  | {
+      type: "SetWords";
+      changes: { index: number; word: string }[];
+    }
+  | {
+      type: "ToggleSelection";
+      indices: number[];
+    }
+  | {
+      type: "ClearSelection";
+    }
+  | {
+      type: "TransformWords";
+      indices: number[];
+      transform: WordTransform;
+    }
+  | {
+      type: "SortWords";
+    }
   | {
       type: "Drag";
       center: [number, number, number];
@@ -676,6 +3992,10 @@ type CreateCrosswordAction =
       type: "DragEnd";
       center: [number, number, number];
     }
+  | {
+      type: "RestoreDraft";
+      state: CreateCrosswordState;
+    }
   | {
       type: "Undo";
     }
@@ -699,8 +4019,15 @@ type WordsChange =
     }
   | {
       type: "ChangeDirection";
-      direction: "X" | "Y" | "Z";
-      previousDirection: "X" | "Y" | "Z";
+      direction: Direction;
+      previousDirection: Direction;
+    }
+  | {
+      type: "ChangePlacement";
+      start: [number, number, number];
+      direction: Direction;
+      previousStart: [number, number, number];
+      previousDirection: Direction;
     }
   | {
       type: "ChangeWord";
@@ -711,11 +4038,31 @@ type WordsChange =
       type: "ChangeDescription";
       description: string;
       previousDescription: string;
+    }
+  | {
+      type: "ChangeWords";
+      changes: { index: number; word: string; previousWord: string }[];
+    }
+  | {
+      type: "ReorderWords";
+      // The word at index i after the change was at order[i] before it.
+      order: number[];
+    }
+  | {
+      type: "ChangePlacements";
+      changes: {
+        index: number;
+        start: [number, number, number];
+        direction: Direction;
+        previousStart: [number, number, number];
+        previousDirection: Direction;
+      }[];
     };
 
 interface History {
   currentWordIndex: null | number;
   orbitCenter: [number, number, number];
+  // The metadata isn't part of the history, so undo only changes the name and the words.
   crossword: {
     name: string;
     // We store the change from the previous value to the next instead of the entire words.
@@ -726,6 +4073,8 @@ interface History {
 interface CreateCrosswordState {
   crossword: Crossword;
   currentWordIndex: null | number;
+  // The words selected for group transforms in the word list view.
+  selectedWordIndices: number[];
   orbitCenter: [number, number, number];
   history: History[];
   historyIndex: number;
@@ -736,7 +4085,7 @@ function createCrosswordReducer(
   action: CreateCrosswordAction
 ): CreateCrosswordState {
   let {
-    crossword: { name, words },
+    crossword: { name, words, metadata },
     currentWordIndex,
     orbitCenter,
     history,
@@ -748,6 +4097,7 @@ function createCrosswordReducer(
         crossword: action.crossword,
         orbitCenter: [0, 0, 0],
         currentWordIndex: null,
+        selectedWordIndices: [],
         history: [
           {
             crossword: {
@@ -766,6 +4116,7 @@ function createCrosswordReducer(
         ...state,
         crossword: {
           name: action.name,
+          metadata,
           words,
         },
         history: [
@@ -782,15 +4133,26 @@ function createCrosswordReducer(
         historyIndex: historyIndex + 1,
       };
     }
+    case "SetMetadata": {
+      return {
+        ...state,
+        crossword: {
+          name,
+          words,
+          metadata: action.metadata,
+        },
+      };
+    }
     case "NewWord": {
       let newWordIndex = words.length;
       let newCrossword = {
         name,
+        metadata,
         words: [
           ...words,
           {
             word: "",
-            direction: "X" as "X" | "Y" | "Z",
+            direction: "X" as Direction,
             start: orbitCenter,
             description: "",
           },
@@ -799,6 +4161,7 @@ function createCrosswordReducer(
       return {
         ...state,
         currentWordIndex: newWordIndex,
+        selectedWordIndices: [],
         crossword: newCrossword,
         history: [
           ...history.slice(0, historyIndex + 1),
@@ -878,6 +4241,7 @@ function createCrosswordReducer(
 
       let newCrossword = {
         name,
+        metadata,
         words: [
           ...words.slice(0, action.index),
           ...words.slice(action.index + 1),
@@ -886,6 +4250,7 @@ function createCrosswordReducer(
       return {
         ...state,
         orbitCenter: newOrbitCenter,
+        selectedWordIndices: [],
         crossword: newCrossword,
         history: [
           ...history.slice(0, historyIndex + 1),
@@ -950,6 +4315,7 @@ function createCrosswordReducer(
         orbitCenter: newOrbitCenter,
         crossword: {
           name,
+          metadata,
           words: newWords,
         },
         history: [
@@ -991,6 +4357,7 @@ function createCrosswordReducer(
         orbitCenter: newOrbitCenter,
         crossword: {
           name,
+          metadata,
           words: newWords,
         },
         history: [
@@ -1011,6 +4378,51 @@ function createCrosswordReducer(
         historyIndex: historyIndex + 1,
       };
     }
+    case "SetPlacement": {
+      let currentWord = words[currentWordIndex as number];
+      let { direction, word, start } = currentWord;
+      let newOrbitCenter = wordLetterPosition(
+        action.start,
+        action.direction,
+        Math.floor(word.length / 2)
+      );
+      let newWords = [
+        ...words.slice(0, currentWordIndex as number),
+        {
+          ...currentWord,
+          start: action.start,
+          direction: action.direction,
+        },
+        ...words.slice((currentWordIndex as number) + 1),
+      ];
+      return {
+        ...state,
+        orbitCenter: newOrbitCenter,
+        crossword: {
+          name,
+          metadata,
+          words: newWords,
+        },
+        history: [
+          ...history.slice(0, historyIndex + 1),
+          {
+            crossword: {
+              name,
+              wordsChange: {
+                type: "ChangePlacement",
+                start: action.start,
+                direction: action.direction,
+                previousStart: start,
+                previousDirection: direction,
+              },
+            },
+            currentWordIndex,
+            orbitCenter: newOrbitCenter,
+          },
+        ],
+        historyIndex: historyIndex + 1,
+      };
+    }
     case "SetWord": {
       let currentWord = words[currentWordIndex as number];
       let { start, direction, word } = currentWord;
@@ -1032,6 +4444,7 @@ function createCrosswordReducer(
         orbitCenter: newOrbitCenter,
         crossword: {
           name,
+          metadata,
           words: newWords,
         },
         history: [
@@ -1066,6 +4479,7 @@ function createCrosswordReducer(
         ...state,
         crossword: {
           name,
+          metadata,
           words: newWords,
         },
         history: [
@@ -1086,6 +4500,141 @@ function createCrosswordReducer(
         historyIndex: historyIndex + 1,
       };
     }
+    case "SetWords": {
+      let newWords = [...words];
+      for (const { index, word } of action.changes) {
+        newWords[index] = {
+          ...newWords[index],
+          word,
+        };
+      }
+      return {
+        ...state,
+        crossword: {
+          name,
+          metadata,
+          words: newWords,
+        },
+        history: [
+          ...history.slice(0, historyIndex + 1),
+          {
+            crossword: {
+              name,
+              wordsChange: {
+                type: "ChangeWords",
+                changes: action.changes.map(({ index, word }) => ({
+                  index,
+                  word,
+                  previousWord: words[index].word,
+                })),
+              },
+            },
+            currentWordIndex,
+            orbitCenter,
+          },
+        ],
+        historyIndex: historyIndex + 1,
+      };
+    }
+    case "ToggleSelection": {
+      // If all the words are selected we unselect them, otherwise we select them.
+      let allSelected = action.indices.every((index) =>
+        state.selectedWordIndices.includes(index)
+      );
+      return {
+        ...state,
+        selectedWordIndices: allSelected
+          ? state.selectedWordIndices.filter(
+              (index) => !action.indices.includes(index)
+            )
+          : [
+              ...state.selectedWordIndices,
+              ...action.indices.filter(
+                (index) => !state.selectedWordIndices.includes(index)
+              ),
+            ],
+      };
+    }
+    case "ClearSelection": {
+      return {
+        ...state,
+        selectedWordIndices: [],
+      };
+    }
+    case "TransformWords": {
+      let placements = transformWords(words, action.indices, action.transform);
+      if (placements.length === 0) {
+        return state;
+      }
+
+      let newWords = [...words];
+      for (const { index, start, direction } of placements) {
+        newWords[index] = {
+          ...newWords[index],
+          start,
+          direction,
+        };
+      }
+      let newOrbitCenter = transformPosition(orbitCenter, action.transform);
+      return {
+        ...state,
+        orbitCenter: newOrbitCenter,
+        crossword: {
+          name,
+          metadata,
+          words: newWords,
+        },
+        history: [
+          ...history.slice(0, historyIndex + 1),
+          {
+            crossword: {
+              name,
+              wordsChange: {
+                type: "ChangePlacements",
+                changes: placements.map(({ index, start, direction }) => ({
+                  index,
+                  start,
+                  direction,
+                  previousStart: words[index].start,
+                  previousDirection: words[index].direction,
+                })),
+              },
+            },
+            currentWordIndex,
+            orbitCenter: newOrbitCenter,
+          },
+        ],
+        historyIndex: historyIndex + 1,
+      };
+    }
+    case "SortWords": {
+      let order = words.map((_, i) => i);
+      order.sort((a, b) => compareWords(words[a], words[b]) || a - b);
+      return {
+        ...state,
+        selectedWordIndices: [],
+        crossword: {
+          name,
+          metadata,
+          words: order.map((i) => words[i]),
+        },
+        history: [
+          ...history.slice(0, historyIndex + 1),
+          {
+            crossword: {
+              name,
+              wordsChange: {
+                type: "ReorderWords",
+                order,
+              },
+            },
+            currentWordIndex,
+            orbitCenter,
+          },
+        ],
+        historyIndex: historyIndex + 1,
+      };
+    }
     case "Drag": {
       let currentWord = words[currentWordIndex as number];
       let { direction, word } = currentWord;
@@ -1156,6 +4705,12 @@ function createCrosswordReducer(
         historyIndex: historyIndex + 1,
       };
     }
+    case "RestoreDraft": {
+      return {
+        ...action.state,
+        selectedWordIndices: [],
+      };
+    }
     case "Undo": {
       if (historyIndex === 0) {
         return state;
@@ -1190,7 +4745,23 @@ function createCrosswordReducer(
               ),
               {
                 ...newWords[history[historyIndex].currentWordIndex as number],
-                start: wordsChange.previousStart,
+                start: wordsChange.previousStart,
+              },
+              ...newWords.slice(
+                (history[historyIndex].currentWordIndex as number) + 1
+              ),
+            ];
+            break;
+          }
+          case "ChangeDirection": {
+            newWords = [
+              ...newWords.slice(
+                0,
+                history[historyIndex].currentWordIndex as number
+              ),
+              {
+                ...newWords[history[historyIndex].currentWordIndex as number],
+                direction: wordsChange.previousDirection,
               },
               ...newWords.slice(
                 (history[historyIndex].currentWordIndex as number) + 1
@@ -1198,7 +4769,7 @@ function createCrosswordReducer(
             ];
             break;
           }
-          case "ChangeDirection": {
+          case "ChangePlacement": {
             newWords = [
               ...newWords.slice(
                 0,
@@ -1206,6 +4777,7 @@ function createCrosswordReducer(
               ),
               {
                 ...newWords[history[historyIndex].currentWordIndex as number],
+                start: wordsChange.previousStart,
                 direction: wordsChange.previousDirection,
               },
               ...newWords.slice(
@@ -1246,6 +4818,39 @@ function createCrosswordReducer(
             ];
             break;
           }
+          case "ChangeWords": {
+            newWords = [...newWords];
+            for (const { index, previousWord } of wordsChange.changes) {
+              newWords[index] = {
+                ...newWords[index],
+                word: previousWord,
+              };
+            }
+            break;
+          }
+          case "ReorderWords": {
+            let previousWords = [...newWords];
+            wordsChange.order.forEach((previousIndex, index) => {
+              previousWords[previousIndex] = newWords[index];
+            });
+            newWords = previousWords;
+            break;
+          }
+          case "ChangePlacements": {
+            newWords = [...newWords];
+            for (const {
+              index,
+              previousStart,
+              previousDirection,
+            } of wordsChange.changes) {
+              newWords[index] = {
+                ...newWords[index],
+                start: previousStart,
+                direction: previousDirection,
+              };
+            }
+            break;
+          }
         }
       }
 
@@ -1253,9 +4858,16 @@ function createCrosswordReducer(
         history,
         historyIndex: historyIndex - 1,
         currentWordIndex,
+        // The selection is kept unless words were added, removed or reordered.
+        selectedWordIndices:
+          newWords.length === words.length &&
+          wordsChange?.type !== "ReorderWords"
+            ? state.selectedWordIndices
+            : [],
         orbitCenter,
         crossword: {
           name,
+          metadata,
           words: newWords,
         },
       };
@@ -1314,6 +4926,18 @@ function createCrosswordReducer(
             ];
             break;
           }
+          case "ChangePlacement": {
+            newWords = [
+              ...newWords.slice(0, currentWordIndex as number),
+              {
+                ...newWords[currentWordIndex as number],
+                start: wordsChange.start,
+                direction: wordsChange.direction,
+              },
+              ...newWords.slice((currentWordIndex as number) + 1),
+            ];
+            break;
+          }
           case "ChangeWord": {
             newWords = [
               ...newWords.slice(0, currentWordIndex as number),
@@ -1336,6 +4960,32 @@ function createCrosswordReducer(
             ];
             break;
           }
+          case "ChangeWords": {
+            newWords = [...newWords];
+            for (const { index, word } of wordsChange.changes) {
+              newWords[index] = {
+                ...newWords[index],
+                word,
+              };
+            }
+            break;
+          }
+          case "ReorderWords": {
+            let previousWords = newWords;
+            newWords = wordsChange.order.map((i) => previousWords[i]);
+            break;
+          }
+          case "ChangePlacements": {
+            newWords = [...newWords];
+            for (const { index, start, direction } of wordsChange.changes) {
+              newWords[index] = {
+                ...newWords[index],
+                start,
+                direction,
+              };
+            }
+            break;
+          }
         }
       }
 
@@ -1343,9 +4993,15 @@ function createCrosswordReducer(
         history,
         historyIndex: historyIndex + 1,
         currentWordIndex,
+        selectedWordIndices:
+          newWords.length === words.length &&
+          wordsChange?.type !== "ReorderWords"
+            ? state.selectedWordIndices
+            : [],
         orbitCenter,
         crossword: {
           name,
+          metadata,
           words: newWords,
         },
       };
@@ -1370,6 +5026,7 @@ function CreateCrossword({ tutorial }: CreateCrosswordProps) {
           words: [],
         },
     currentWordIndex: tutorial ? tutorial.currentWordIndex : null,
+    selectedWordIndices: [],
     orbitCenter: tutorial ? tutorial.orbitCenter : [0, 0, 0],
     history: [
       {
@@ -1386,13 +5043,132 @@ function CreateCrossword({ tutorial }: CreateCrosswordProps) {
   let {
     crossword: { words },
     currentWordIndex,
+    selectedWordIndices,
     orbitCenter,
   } = state;
+  let location = useLocation();
+  let navigate = useNavigate();
+  // The draft is only saved after the previously saved draft has been loaded,
+  // so that we don't overwrite it.
+  let [draftLoaded, setDraftLoaded] = useState(false);
+  let [savedDraft, setSavedDraft] = useState(null as null | Draft);
+  // The suggested placement of the current word shown in the viewer.
+  let [placementPreview, setPlacementPreview] = useState(
+    null as null | PlacementSuggestion
+  );
+  let [slice, setSlice] = useState(null as null | Slice);
+  let [spacing, setSpacing] = useState(1);
+  let [cameraRequest, setCameraRequest] = useState(
+    null as null | CameraRequest
+  );
+  let [viewAids, setViewAids] = useState(DEFAULT_VIEW_AIDS);
 
   useEffect(() => {
     document.title = "Create crossword";
   }, []);
 
+  useEffect(() => {
+    setPlacementPreview(null);
+  }, [currentWordIndex]);
+
+  useEffect(() => {
+    if (tutorial) {
+      return;
+    }
+
+    getDraft()
+      .catch((_) => undefined)
+      .then((draft) => {
+        if (
+          draft &&
+          (draft.state.crossword.name.length > 0 ||
+            draft.state.crossword.words.length > 0)
+        ) {
+          setSavedDraft(draft);
+        }
+        setDraftLoaded(true);
+      });
+  }, []);
+
+  // The crossword when the history was last reset. Metadata changes aren't in the history,
+  // so the crossword is compared to it to find out whether there are changes.
+  let unchangedCrossword = useRef(state.crossword);
+  useEffect(() => {
+    unchangedCrossword.current = state.crossword;
+  }, [state.history[0]]);
+
+  function hasChanges() {
+    return (
+      state.history.length > 1 || state.crossword !== unchangedCrossword.current
+    );
+  }
+
+  // Drag actions are dispatched on every frame of a drag. Only the state after the DragEnd is saved.
+  let dragging = useRef(false);
+  let dragDispatch = useCallback((action: CreateCrosswordAction) => {
+    dragging.current = action.type === "Drag";
+    dispatch(action);
+  }, []);
+
+  // The draft which hasn't been saved yet.
+  let unsavedDraft = useRef(null as null | Draft);
+
+  function saveDraft() {
+    if (unsavedDraft.current !== null) {
+      putDraft(unsavedDraft.current).catch((_) => {});
+      unsavedDraft.current = null;
+    }
+  }
+
+  useEffect(() => {
+    // We don't save until there is a change, so that just visiting the page
+    // doesn't replace the saved draft. While the user hasn't chosen whether to
+    // restore the saved draft, it is kept as well.
+    if (
+      !draftLoaded ||
+      savedDraft !== null ||
+      !hasChanges() ||
+      dragging.current
+    ) {
+      return;
+    }
+
+    unsavedDraft.current = { state, updated: Date.now() };
+    let timeout = setTimeout(saveDraft, DRAFT_SAVE_DELAY_MS);
+    return () => {
+      clearTimeout(timeout);
+    };
+  }, [draftLoaded, savedDraft, state]);
+
+  useEffect(() => {
+    function onVisibilityChange() {
+      if (document.hidden) {
+        saveDraft();
+      }
+    }
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    window.addEventListener("pagehide", saveDraft);
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      window.removeEventListener("pagehide", saveDraft);
+      // Leaving the page within the app doesn't hide it.
+      saveDraft();
+    };
+  }, []);
+
+  useEffect(() => {
+    let locationState = location.state as null | LibraryLocationState;
+    if (locationState && locationState.crossword) {
+      addToLibrary(locationState.crossword).catch((_) => {});
+      dispatch({
+        type: "SetCrossword",
+        crossword: locationState.crossword,
+      });
+      // The state is kept across reloads, which would open the crossword again.
+      navigate(location.pathname, { replace: true, state: null });
+    }
+  }, [location.state]);
+
   useEffect(() => {
     function onKeyDown(e: KeyboardEvent) {
       if (e.ctrlKey) {
@@ -1416,113 +5192,179 @@ function CreateCrossword({ tutorial }: CreateCrosswordProps) {
     };
   }, []);
 
-  let letters: Map<
-    string,
-    {
-      letter: string;
-      position: [number, number, number];
-      opacity: number;
-      lettersBy: number[];
-    }
-  > = new Map();
-  words.forEach(({ word, direction, start }, wordIndex) => {
-    for (let i = 0; i < word.length; i++) {
-      let position = wordLetterPosition(start, direction, i);
-      let positionKey = `${position[0]} ${position[1]} ${position[2]}`;
+  // The blocks are only recomputed when the words change, not on every render.
+  let letters = useMemo(() => {
+    let letters: Map<
+      string,
+      {
+        letter: string;
+        position: [number, number, number];
+        opacity: number;
+        lettersBy: number[];
+      }
+    > = new Map();
+    words.forEach(({ word, direction, start }, wordIndex) => {
+      for (let i = 0; i < word.length; i++) {
+        let position = wordLetterPosition(start, direction, i);
+        let positionKey = `${position[0]} ${position[1]} ${position[2]}`;
 
-      let entry = letters.get(positionKey);
-      if (entry === undefined) {
-        // No entry for this position.
-        letters.set(positionKey, {
-          letter: word[i],
-          position,
-          opacity:
-            currentWordIndex === null || currentWordIndex === wordIndex
-              ? 1.0
-              : 0.1,
-          lettersBy: [wordIndex],
-        });
-      } else if (entry.letter === " ") {
-        // Entry exists but is a space so we can put our letter.
-        letters.set(positionKey, {
-          letter: word[i],
-          position,
-          opacity: Math.max(
-            currentWordIndex === null || currentWordIndex === wordIndex
-              ? 1.0
-              : 0.1,
-            entry.opacity
-          ), // We use max as if the block is required to have opacity 1 by some word, we keep the opacity as 1.
-          lettersBy: [...entry.lettersBy, wordIndex],
-        });
-      } else if (word[i] === " " || entry.letter === word[i]) {
-        // Either our letter is a space or it is equal to the current letter, so we can just keep the letter already present.
-        letters.set(positionKey, {
-          letter: entry.letter,
-          position,
-          opacity: Math.max(
-            currentWordIndex === null || currentWordIndex === wordIndex
-              ? 1.0
-              : 0.1,
-            entry.opacity
-          ),
-          lettersBy: [...entry.lettersBy, wordIndex],
-        });
-      } else {
-        // The letters don't match.
-        letters.set(positionKey, {
-          letter: "?",
-          position,
-          opacity: Math.max(
-            currentWordIndex === null || currentWordIndex === wordIndex
-              ? 1.0
-              : 0.1,
-            entry.opacity
-          ),
-          lettersBy: [...entry.lettersBy, wordIndex],
-        });
+        let entry = letters.get(positionKey);
+        if (entry === undefined) {
+          // No entry for this position.
+          letters.set(positionKey, {
+            letter: word[i],
+            position,
+            opacity:
+              currentWordIndex === null || currentWordIndex === wordIndex
+                ? 1.0
+                : 0.1,
+            lettersBy: [wordIndex],
+          });
+        } else if (entry.letter === " ") {
+          // Entry exists but is a space so we can put our letter.
+          letters.set(positionKey, {
+            letter: word[i],
+            position,
+            opacity: Math.max(
+              currentWordIndex === null || currentWordIndex === wordIndex
+                ? 1.0
+                : 0.1,
+              entry.opacity
+            ), // We use max as if the block is required to have opacity 1 by some word, we keep the opacity as 1.
+            lettersBy: [...entry.lettersBy, wordIndex],
+          });
+        } else if (word[i] === " " || entry.letter === word[i]) {
+          // Either our letter is a space or it is equal to the current letter, so we can just keep the letter already present.
+          letters.set(positionKey, {
+            letter: entry.letter,
+            position,
+            opacity: Math.max(
+              currentWordIndex === null || currentWordIndex === wordIndex
+                ? 1.0
+                : 0.1,
+              entry.opacity
+            ),
+            lettersBy: [...entry.lettersBy, wordIndex],
+          });
+        } else {
+          // The letters don't match.
+          letters.set(positionKey, {
+            letter: "?",
+            position,
+            opacity: Math.max(
+              currentWordIndex === null || currentWordIndex === wordIndex
+                ? 1.0
+                : 0.1,
+              entry.opacity
+            ),
+            lettersBy: [...entry.lettersBy, wordIndex],
+          });
+        }
+      }
+    });
+    return letters;
+  }, [words, currentWordIndex]);
+
+  let warnings = useMemo(
+    () => analyzeCrosswordQuality(words, letters),
+    [words, letters]
+  );
+  let warningPositionKeys = useMemo(() => {
+    let warningPositionKeys: Set<string> = new Set();
+    for (const { positions } of warnings) {
+      for (const position of positions) {
+        warningPositionKeys.add(`${position[0]} ${position[1]} ${position[2]}`);
       }
     }
-  });
+    return warningPositionKeys;
+  }, [warnings]);
 
-  let blocks = [];
-  for (const { letter, position, opacity } of letters.values()) {
-    let positionKey = `${position[0]} ${position[1]} ${position[2]}`;
+  let blocks = useMemo(() => {
+    let selectedWords = new Set(selectedWordIndices);
+    let blocks: LetterBlock[] = [];
+    for (const { letter, position, opacity, lettersBy } of letters.values()) {
+      let positionKey = `${position[0]} ${position[1]} ${position[2]}`;
 
-    let isOrbitCenter = true;
-    for (let i = 0; i < 3; i++) {
-      if (position[i] !== orbitCenter[i]) {
-        isOrbitCenter = false;
-        break;
+      let isOrbitCenter = true;
+      for (let i = 0; i < 3; i++) {
+        if (position[i] !== orbitCenter[i]) {
+          isOrbitCenter = false;
+          break;
+        }
       }
-    }
 
-    let onClick = (e: ThreeEvent<MouseEvent>) => {
-      if (currentWordIndex === null) {
-        e.stopPropagation();
-        dispatch({
-          type: "SetOrbitCenter",
-          position,
-        });
+      let color = BLOCK_COLOR;
+      if (isOrbitCenter && currentWordIndex === null) {
+        color = SELECTED_BLOCK_COLOR;
+      } else if (
+        currentWordIndex === null &&
+        lettersBy.some((i) => selectedWords.has(i))
+      ) {
+        color = GROUP_BLOCK_COLOR;
+      } else if (warningPositionKeys.has(positionKey)) {
+        color = WARNING_BLOCK_COLOR;
       }
-    };
 
-    blocks.push(
-      <LetterBlock
-        position={position}
-        letter={letter}
-        textColor={letter === "?" ? "red" : "black"}
-        opacity={opacity}
-        key={positionKey}
-        color={
-          isOrbitCenter && currentWordIndex === null
-            ? SELECTED_BLOCK_COLOR
-            : BLOCK_COLOR
+      let onClick = (e: ThreeEvent<MouseEvent>) => {
+        if (currentWordIndex === null) {
+          e.stopPropagation();
+          if (e.nativeEvent.shiftKey) {
+            // Shift click selects the words through the block.
+            dispatch({
+              type: "ToggleSelection",
+              indices: lettersBy,
+            });
+          } else {
+            dispatch({
+              type: "SetOrbitCenter",
+              position,
+            });
+          }
         }
-        onClick={onClick}
-      />
-    );
-  }
+      };
+
+      blocks.push({
+        position,
+        letter,
+        textColor: letter === "?" ? "red" : "black",
+        opacity,
+        color,
+        onClick,
+      });
+    }
+
+    if (placementPreview !== null && currentWordIndex !== null) {
+      let { start, direction } = placementPreview;
+      words[currentWordIndex].word.split("").forEach((letter, i) => {
+        blocks.push({
+          position: wordLetterPosition(start, direction, i),
+          letter,
+          textColor: "black",
+          color: PREVIEW_BLOCK_COLOR,
+          opacity: 0.4,
+          onClick: (e) => {
+            e.stopPropagation();
+            setPlacementPreview(null);
+            dispatch({
+              type: "SetPlacement",
+              start,
+              direction,
+            });
+          },
+        });
+      });
+    }
+    return blocks;
+  }, [
+    letters,
+    words,
+    currentWordIndex,
+    selectedWordIndices,
+    orbitCenter,
+    warningPositionKeys,
+    placementPreview,
+  ]);
+  let shownBlocks = useMemo(() => sliceBlocks(blocks, slice), [blocks, slice]);
 
   return (
     <div className="grow flex justify-between">
@@ -1530,161 +5372,460 @@ function CreateCrossword({ tutorial }: CreateCrosswordProps) {
         createCrosswordState={state}
         dispatch={dispatch}
         letters={letters}
+        warnings={warnings}
+        setPlacementPreview={setPlacementPreview}
+        flyToWord={(wordIndex) => {
+          if (words[wordIndex].word.length > 0) {
+            setCameraRequest({ type: "Word", word: words[wordIndex] });
+          }
+        }}
       />
       <div className="grow flex justify-center items-center bg-gray-200">
-        <div className="h-5/6 w-11/12 bg-white">
+        <div className="h-5/6 w-11/12 bg-white relative">
+          {savedDraft && (
+            <div className="absolute top-0 inset-x-0 z-10 p-2 flex justify-center gap-5 bg-sky-50">
+              <span>
+                You have an unsaved draft
+                {savedDraft.state.crossword.name.length > 0
+                  ? ` "${savedDraft.state.crossword.name}"`
+                  : ""}{" "}
+                from {new Date(savedDraft.updated).toLocaleString()}.
+              </span>
+              <button
+                className="underline"
+                onClick={() => {
+                  dispatch({
+                    type: "RestoreDraft",
+                    state: (savedDraft as Draft).state,
+                  });
+                  setSavedDraft(null);
+                }}
+              >
+                Restore
+              </button>
+              <button
+                className="underline"
+                onClick={() => {
+                  // If there are changes, they replace the saved draft once it is discarded.
+                  if (!hasChanges()) {
+                    deleteDraft().catch((_) => {});
+                  }
+                  setSavedDraft(null);
+                }}
+              >
+                Discard
+              </button>
+            </div>
+          )}
           <Canvas>
             <ambientLight />
             <pointLight position={[10, 10, 10]} />
-            {blocks}
+            <LetterBlocks
+              blocks={shownBlocks}
+              spacing={spacing}
+              showCoordinates={viewAids.coordinates}
+            />
             {currentWordIndex !== null &&
               words[currentWordIndex].word.length > 0 && (
-                <WordPositionControls
-                  orbitCenter={orbitCenter}
-                  dispatch={dispatch}
-                />
+                <>
+                  <WordPositionControls
+                    orbitCenter={orbitCenter}
+                    spacing={spacing}
+                    dispatch={dragDispatch}
+                  />
+                  <WordDirectionArrow
+                    word={words[currentWordIndex]}
+                    spacing={spacing}
+                  />
+                </>
               )}
-            <OrbitControls target={orbitCenter} makeDefault />
+            <SceneAids words={words} spacing={spacing} viewAids={viewAids} />
+            <CameraRig
+              words={words}
+              orbitCenter={orbitCenter}
+              spacing={spacing}
+              request={cameraRequest}
+              setOrbitCenter={
+                currentWordIndex === null
+                  ? (position) => {
+                      dispatch({ type: "SetOrbitCenter", position });
+                    }
+                  : null
+              }
+              makeDefault={true}
+            />
           </Canvas>
+          <div className="absolute bottom-2 right-2 z-10 space-y-2">
+            <ViewAidsControl viewAids={viewAids} setViewAids={setViewAids} />
+            <CameraControls setCameraRequest={setCameraRequest} />
+            <ExplodeControl spacing={spacing} setSpacing={setSpacing} />
+            <SliceControls
+              words={words}
+              selectedWord={
+                currentWordIndex === null ? null : words[currentWordIndex]
+              }
+              slice={slice}
+              setSlice={setSlice}
+            />
+          </div>
         </div>
       </div>
     </div>
   );
 }
 
+// The words passing through the position, along with the index of the position's letter in each of them.
+function wordsAtPosition(
+  words: Word[],
+  position: [number, number, number]
+): { wordIndex: number; letterIndex: number }[] {
+  let result = [];
+  for (let wordIndex = 0; wordIndex < words.length; wordIndex++) {
+    let { word, start, direction } = words[wordIndex];
+    for (let letterIndex = 0; letterIndex < word.length; letterIndex++) {
+      let letterPosition = wordLetterPosition(start, direction, letterIndex);
+      if (letterPosition.every((value, i) => value === position[i])) {
+        result.push({ wordIndex, letterIndex });
+        break;
+      }
+    }
+  }
+  return result;
+}
+
+// A guessed letter. Tentative (pencilled) letters don't count until they are confirmed.
+interface SolveCell {
+  letter: string;
+  pencil: boolean;
+}
+
+// The guesses of a crossword by position key, so that every word through a position shares its letter.
+// Blank positions have no entry.
+type SolveCells = Record<string, SolveCell>;
+
+// Sets the guessed letter at the position. A space clears the letter.
+function setCellLetter(
+  cells: SolveCells,
+  position: [number, number, number],
+  letter: string,
+  pencil: boolean
+) {
+  let positionKey = `${position[0]} ${position[1]} ${position[2]}`;
+  let newCells = { ...cells };
+  if (letter === " ") {
+    delete newCells[positionKey];
+  } else {
+    newCells[positionKey] = { letter, pencil };
+  }
+  return newCells;
+}
+
+// The guess for the word, with a space for every blank position.
+function wordGuess({ word, direction, start }: Word, cells: SolveCells) {
+  let guess = "";
+  for (let i = 0; i < word.length; i++) {
+    let position = wordLetterPosition(start, direction, i);
+    let cell = cells[`${position[0]} ${position[1]} ${position[2]}`];
+    guess += cell ? cell.letter : " ";
+  }
+  return guess;
+}
+
+// Whether the guess is the answer of the word, which is compared by its hash for crosswords from a solver file.
+function isCorrectGuess(
+  crossword: Crossword,
+  wordIndex: number,
+  guess: string
+) {
+  if (crossword.protection) {
+    return (
+      answerHash(crossword.protection.salt, guess) ===
+      crossword.protection.hashes[wordIndex]
+    );
+  }
+  return guess === crossword.words[wordIndex].word;
+}
+
+function isWordSolved(
+  crossword: Crossword,
+  wordIndex: number,
+  cells: SolveCells
+) {
+  let { word, direction, start } = crossword.words[wordIndex];
+  for (let i = 0; i < word.length; i++) {
+    let position = wordLetterPosition(start, direction, i);
+    let cell = cells[`${position[0]} ${position[1]} ${position[2]}`];
+    if (!cell || cell.pencil) {
+      return false;
+    }
+  }
+  return isCorrectGuess(
+    crossword,
+    wordIndex,
+    wordGuess(crossword.words[wordIndex], cells)
+  );
+}
+
+type AssistScope = "Letter" | "Word" | "Puzzle";
+
+type CellMark = "Correct" | "Wrong" | "Revealed";
+
+interface SolveAssistsProps {
+  letterAvailable: boolean;
+  wordAvailable: boolean;
+  // Crosswords from a solver file can only be checked a word at a time and can't be revealed.
+  answersHidden: boolean;
+  assists: number;
+  onCheck: (scope: AssistScope) => void;
+  onReveal: (scope: AssistScope) => void;
+}
+
+function SolveAssists({
+  letterAvailable,
+  wordAvailable,
+  answersHidden,
+  assists,
+  onCheck,
+  onReveal,
+}: SolveAssistsProps) {
+  let scopes: [AssistScope, boolean][] = [
+    ["Letter", letterAvailable && !answersHidden],
+    ["Word", wordAvailable],
+    ["Puzzle", true],
+  ];
+
+  return (
+    <div className="border-t pt-3 space-y-1">
+      <p>Assists used: {assists}</p>
+      <div className="flex justify-between">
+        <span>Check:</span>
+        {scopes.map(([scope, available]) => (
+          <button
+            className="underline disabled:no-underline disabled:text-slate-400"
+            disabled={!available}
+            onClick={() => {
+              onCheck(scope);
+            }}
+            key={scope}
+          >
+            {scope}
+          </button>
+        ))}
+      </div>
+      {!answersHidden && (
+        <div className="flex justify-between">
+          <span>Reveal:</span>
+          {scopes.map(([scope, available]) => (
+            <button
+              className="underline disabled:no-underline disabled:text-slate-400"
+              disabled={!available}
+              onClick={() => {
+                onReveal(scope);
+              }}
+              key={scope}
+            >
+              {scope}
+            </button>
+          ))}
+        </div>
+      )}
+      {answersHidden && (
+        <p className="text-sm text-slate-600">
+          This crossword's answers are hidden, so only complete words can be
+          checked.
+        </p>
+      )}
+    </div>
+  );
+}
+
 interface ViewCrosswordProps {
   crossword: Crossword;
-  words: string[];
+  cells: SolveCells;
   currentWordIndex: number | null;
+  cursor: null | [number, number, number];
+  marks: Map<string, CellMark>;
+  slice: null | Slice;
+  spacing: number;
+  cameraRequest: null | CameraRequest;
+  viewAids: ViewAids;
+  assists: number;
+  elapsedSeconds: number;
+  paused: boolean;
+  onResume: () => void;
+  onSelectBlock: (position: [number, number, number]) => void;
   orbitCenter: [number, number, number];
   setOrbitCenter: (orbitCenter: [number, number, number]) => void;
 }
 
 function ViewCrossword({
   crossword,
-  words,
+  cells,
   currentWordIndex,
+  cursor,
+  marks,
+  slice,
+  spacing,
+  cameraRequest,
+  viewAids,
+  assists,
+  elapsedSeconds,
+  paused,
+  onResume,
+  onSelectBlock,
   orbitCenter,
   setOrbitCenter,
 }: ViewCrosswordProps) {
-  let letters = new Map();
-  crossword.words.forEach(({ word, direction, start }, wordIndex) => {
-    for (let i = 0; i < word.length; i++) {
-      let position = wordLetterPosition(start, direction, i);
-      let positionKey = `${position[0]} ${position[1]} ${position[2]}`;
-
-      let entry = letters.get(positionKey);
-      let opacity =
-        currentWordIndex === null || currentWordIndex === wordIndex ? 1.0 : 0.1;
-      if (entry !== undefined) {
-        opacity = Math.max(opacity, entry.opacity);
-      }
+  let letters = useMemo(() => {
+    let letters: Map<
+      string,
+      { position: [number, number, number]; opacity: number }
+    > = new Map();
+    crossword.words.forEach(({ word, direction, start }, wordIndex) => {
+      for (let i = 0; i < word.length; i++) {
+        let position = wordLetterPosition(start, direction, i);
+        let positionKey = `${position[0]} ${position[1]} ${position[2]}`;
 
-      letters.set(positionKey, {
-        letter: " ",
-        position,
-        opacity,
-        lettersBy: [],
-      });
-    }
-  });
-
-  words.forEach((word, wordIndex) => {
-    let { direction, start } = crossword.words[wordIndex];
-    for (let i = 0; i < word.length; i++) {
-      let position = wordLetterPosition(start, direction, i);
-      let positionKey = `${position[0]} ${position[1]} ${position[2]}`;
+        let entry = letters.get(positionKey);
+        let opacity =
+          currentWordIndex === null || currentWordIndex === wordIndex
+            ? 1.0
+            : 0.1;
+        if (entry !== undefined) {
+          opacity = Math.max(opacity, entry.opacity);
+        }
 
-      let entry = letters.get(positionKey);
-      if (entry.letter === " ") {
-        letters.set(positionKey, {
-          letter: word[i],
-          position,
-          opacity: Math.max(
-            currentWordIndex === null || currentWordIndex === wordIndex
-              ? 1.0
-              : 0.1,
-            entry.opacity
-          ),
-          lettersBy: [...entry.lettersBy, wordIndex],
-        });
-      } else if (word[i] === " " || entry.letter === word[i]) {
-        letters.set(positionKey, {
-          letter: entry.letter,
-          position,
-          opacity: Math.max(
-            currentWordIndex === null || currentWordIndex === wordIndex
-              ? 1.0
-              : 0.1,
-            entry.opacity
-          ),
-          lettersBy: [...entry.lettersBy, wordIndex],
-        });
-      } else {
-        letters.set(positionKey, {
-          letter: "?",
-          position,
-          opacity: Math.max(
-            currentWordIndex === null || currentWordIndex === wordIndex
-              ? 1.0
-              : 0.1,
-            entry.opacity
-          ),
-          lettersBy: [...entry.lettersBy, wordIndex],
-        });
+        letters.set(positionKey, { position, opacity });
       }
-    }
-  });
+    });
+    return letters;
+  }, [crossword, currentWordIndex]);
 
-  let blocks = [];
-  for (const { letter, position, opacity } of letters.values()) {
-    let positionKey = `${position[0]} ${position[1]} ${position[2]}`;
+  let blocks = useMemo(() => {
+    let blocks: LetterBlock[] = [];
+    for (const [positionKey, { position, opacity }] of letters) {
+      let cell = cells[positionKey];
 
-    let isOrbitCenter = true;
-    for (let i = 0; i < 3; i++) {
-      if (position[i] !== orbitCenter[i]) {
-        isOrbitCenter = false;
+      let isOrbitCenter = true;
+      for (let i = 0; i < 3; i++) {
+        if (position[i] !== orbitCenter[i]) {
+          isOrbitCenter = false;
+        }
       }
-    }
-    let onClick = (e: ThreeEvent<MouseEvent>) => {
-      if (currentWordIndex === null) {
+      let isCursor =
+        cursor !== null &&
+        position[0] === cursor[0] &&
+        position[1] === cursor[1] &&
+        position[2] === cursor[2];
+      let onClick = (e: ThreeEvent<MouseEvent>) => {
         e.stopPropagation();
-        setOrbitCenter(position);
-      }
-    };
+        if (currentWordIndex === null) {
+          setOrbitCenter(position);
+        }
+        onSelectBlock(position);
+      };
 
-    blocks.push(
-      <LetterBlock
-        position={position}
-        letter={letter}
-        textColor={letter === "?" ? "red" : "black"}
-        opacity={opacity}
-        color={isOrbitCenter ? SELECTED_BLOCK_COLOR : BLOCK_COLOR}
-        onClick={onClick}
-        key={positionKey}
-      />
-    );
-  }
+      let mark = marks.get(positionKey);
+      let color = BLOCK_COLOR;
+      if (isCursor) {
+        color = CURSOR_BLOCK_COLOR;
+      } else if (mark === "Revealed") {
+        color = REVEALED_BLOCK_COLOR;
+      } else if (mark === "Correct") {
+        color = CORRECT_BLOCK_COLOR;
+      } else if (mark === "Wrong") {
+        color = WRONG_BLOCK_COLOR;
+      } else if (isOrbitCenter) {
+        color = SELECTED_BLOCK_COLOR;
+      }
 
-  let solved = true;
-  for (let i = 0; i < crossword.words.length; i++) {
-    if (crossword.words[i].word != words[i]) {
-      solved = false;
-      break;
+      blocks.push({
+        position,
+        letter: cell ? cell.letter : " ",
+        textColor:
+          mark === "Wrong"
+            ? "red"
+            : cell && cell.pencil
+            ? PENCIL_TEXT_COLOR
+            : "black",
+        opacity: isCursor ? 1.0 : opacity,
+        color,
+        onClick,
+      });
     }
-  }
+
+    return blocks;
+  }, [
+    letters,
+    cells,
+    cursor,
+    marks,
+    orbitCenter,
+    currentWordIndex,
+    onSelectBlock,
+    setOrbitCenter,
+  ]);
+  let shownBlocks = useMemo(() => sliceBlocks(blocks, slice), [blocks, slice]);
+  let solvedWords = crossword.words.filter((_, i) =>
+    isWordSolved(crossword, i, cells)
+  ).length;
+  let solved = solvedWords === crossword.words.length;
 
   return (
     <>
-      <Canvas>
+      <Canvas className={paused && !solved ? "blur-md" : ""}>
         <ambientLight />
         <pointLight position={[10, 10, 10]} />
-        {blocks}
-        <OrbitControls target={orbitCenter} />
+        <LetterBlocks
+          blocks={shownBlocks}
+          spacing={spacing}
+          showCoordinates={viewAids.coordinates}
+        />
+        <SceneAids
+          words={crossword.words}
+          spacing={spacing}
+          viewAids={viewAids}
+        />
+        <CameraRig
+          words={crossword.words}
+          orbitCenter={orbitCenter}
+          spacing={spacing}
+          request={cameraRequest}
+          setOrbitCenter={setOrbitCenter}
+        />
       </Canvas>
       {solved && (
         <div className="flex justify-center items-center absolute w-full h-full pointer-events-none text-5xl bg-white/75">
-          <p>Crossword solved!</p>
+          <div className="text-center space-y-3">
+            <p>Crossword solved!</p>
+            <div className="text-2xl">
+              <p>Time: {formatDuration(elapsedSeconds)}</p>
+              <p>
+                Words solved: {solvedWords} / {crossword.words.length}
+              </p>
+              <p>
+                {assists === 0
+                  ? "No assists used"
+                  : `${assists} ${assists === 1 ? "assist" : "assists"} used`}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+      {paused && !solved && (
+        <div className="flex justify-center items-center absolute w-full h-full text-5xl bg-white/50">
+          <div className="text-center space-y-3">
+            <p>Paused</p>
+            <div className="text-2xl">
+              <p>Time: {formatDuration(elapsedSeconds)}</p>
+              <p>
+                Words solved: {solvedWords} / {crossword.words.length}
+              </p>
+            </div>
+            <button className="text-2xl underline" onClick={onResume}>
+              Resume
+            </button>
+          </div>
         </div>
       )}
     </>
@@ -1693,90 +5834,35 @@ function ViewCrossword({
 
 interface CrosswordMenuProps {
   crossword: Crossword;
-  words: string[];
-  setWords: (words: string[]) => void;
+  cells: SolveCells;
+  setWordGuess: (wordIndex: number, guess: string) => void;
   currentWordIndex: null | number;
   setCurrentWordIndex: (wordIndex: null | number) => void;
   orbitCenter: [number, number, number];
   setOrbitCenter: (orbitCenter: [number, number, number]) => void;
+  flyToWord: (wordIndex: number) => void;
 }
 
 function CrosswordMenu({
   crossword,
-  words,
-  setWords,
+  cells,
+  setWordGuess,
   currentWordIndex,
   setCurrentWordIndex,
   orbitCenter,
   setOrbitCenter,
+  flyToWord,
 }: CrosswordMenuProps) {
-  let letters = new Map();
-  crossword.words.forEach(({ word, direction, start }) => {
-    for (let i = 0; i < word.length; i++) {
-      let position = wordLetterPosition(start, direction, i);
-      let positionKey = `${position[0]} ${position[1]} ${position[2]}`;
-      letters.set(positionKey, {
-        letter: " ",
-        lettersBy: [],
-      });
-    }
-  });
-
-  words.forEach((word, wordIndex) => {
-    let { direction, start } = crossword.words[wordIndex];
-    for (let i = 0; i < word.length; i++) {
-      let position = wordLetterPosition(start, direction, i);
-      let positionKey = `${position[0]} ${position[1]} ${position[2]}`;
-
-      let entry = letters.get(positionKey);
-      if (entry.letter === " ") {
-        letters.set(positionKey, {
-          letter: word[i],
-          lettersBy: [...entry.lettersBy, wordIndex],
-        });
-      } else if (word[i] === " " || entry.letter === word[i]) {
-        letters.set(positionKey, {
-          letter: entry.letter,
-          lettersBy: [...entry.lettersBy, wordIndex],
-        });
-      } else {
-        letters.set(positionKey, {
-          letter: "?",
-          lettersBy: [...entry.lettersBy, wordIndex],
-        });
-      }
-    }
-  });
-
-  let wordValidity: boolean[] = new Array(words.length).fill(true);
-  for (const { letter, lettersBy } of letters.values()) {
-    if (letter === "?") {
-      lettersBy.forEach((i: number) => {
-        wordValidity[i] = false;
-      });
-    }
-  }
-  for (let i = 0; i < words.length; i++) {
-    if (words[i].length != crossword.words[i].word.length) {
-      wordValidity[i] = false;
-      continue;
-    }
-
-    for (let j = 0; j < words[i].length; j++) {
-      if (words[i][j] === " ") {
-        wordValidity[i] = false;
-        break;
-      }
-    }
-  }
+  let guesses = useMemo(
+    () => crossword.words.map((word) => wordGuess(word, cells)),
+    [crossword, cells]
+  );
+  // Words are marked until every letter is guessed.
+  let wordValidity = guesses.map((guess) => !guess.includes(" "));
 
-  let solved = true;
-  for (let i = 0; i < crossword.words.length; i++) {
-    if (crossword.words[i].word != words[i]) {
-      solved = false;
-      break;
-    }
-  }
+  let solved = crossword.words.every((_, i) =>
+    isWordSolved(crossword, i, cells)
+  );
 
   let containsOrbitCenter = crossword.words.map((word) => {
     let endBlock = wordLetterPosition(
@@ -1806,10 +5892,28 @@ function CrosswordMenu({
       <p className="mt-3 text-ellipsis overflow-hidden">
         Name: {crossword.name}
       </p>
+      {crossword.metadata && (
+        <div className="text-sm text-slate-600">
+          {crossword.metadata.author && <p>By {crossword.metadata.author}</p>}
+          {crossword.metadata.difficulty && (
+            <p>Difficulty: {crossword.metadata.difficulty}</p>
+          )}
+          {crossword.metadata.createdAt && (
+            <p>
+              Created:{" "}
+              {new Date(crossword.metadata.createdAt).toLocaleDateString()}
+            </p>
+          )}
+          {crossword.metadata.notes && <p>{crossword.metadata.notes}</p>}
+          {crossword.metadata.copyright && (
+            <p>{crossword.metadata.copyright}</p>
+          )}
+        </div>
+      )}
       {currentWordIndex === null && (
         <div className="mt-3">
           <p className="my-1">Words:</p>
-          {words.map((word, index) => (
+          {guesses.map((guess, index) => (
             <div className="my-1" key={index}>
               <span
                 onClick={() => {
@@ -1822,6 +5926,7 @@ function CrosswordMenu({
                       Math.floor(word.length / 2)
                     )
                   );
+                  flyToWord(index);
                 }}
                 className={
                   "flex justify-between cursor-pointer " +
@@ -1830,10 +5935,7 @@ function CrosswordMenu({
                 }
               >
                 <span className="text-ellipsis overflow-hidden">
-                  {word.replaceAll(" ", "_") +
-                    "_".repeat(
-                      crossword.words[index].word.length - word.length
-                    )}
+                  {guess.replaceAll(" ", "_")}
                 </span>
                 <span>{"(" + crossword.words[index].word.length + ")"}</span>
               </span>
@@ -1858,7 +5960,7 @@ function CrosswordMenu({
           <div className="my-3">
             <p>Word:</p>
             <input
-              value={words[currentWordIndex]}
+              value={guesses[currentWordIndex].trimEnd()}
               className="border border-slate-300 p-0.5"
               onChange={(e) => {
                 let word = e.target.value.toUpperCase();
@@ -1867,11 +5969,7 @@ function CrosswordMenu({
                     crossword.words[currentWordIndex as number].word.length &&
                   onlyContainsUpperCaseAlphabetsAndSpaces(word)
                 ) {
-                  setWords([
-                    ...words.slice(0, currentWordIndex as number),
-                    word,
-                    ...words.slice((currentWordIndex as number) + 1),
-                  ]);
+                  setWordGuess(currentWordIndex as number, word);
                 }
               }}
             />
@@ -1893,25 +5991,464 @@ interface SolveCrosswordProps {
 }
 
 function SolveCrossword({ tutorial }: SolveCrosswordProps) {
+  let { payload } = useParams();
+  let location = useLocation();
+  let navigate = useNavigate();
+  let [linkError, setLinkError] = useState("");
   let [crossword, setCrossword] = useState(
     tutorial ? tutorial.crossword : null
   );
-  let [words, setWords] = useState(
-    (tutorial && tutorial.crossword
-      ? new Array(tutorial.crossword.words.length).fill("")
-      : []) as string[]
-  );
+  let [cells, setCells] = useState({} as SolveCells);
   let [currentWordIndex, setCurrentWordIndex] = useState(null as null | number);
+  // The block which typed letters go into. It moves along the current word.
+  let [cursor, setCursor] = useState(null as null | [number, number, number]);
   let [orbitCenter, setOrbitCenter] = useState([0, 0, 0] as [
     number,
     number,
     number
   ]);
+  let [elapsedSeconds, setElapsedSeconds] = useState(0);
+  let [paused, setPaused] = useState(false);
+  let [hidden, setHidden] = useState(document.hidden);
+  // The guessed letter at every checked position, so that the check is shown until the letter changes.
+  let [checkedLetters, setCheckedLetters] = useState(
+    {} as Record<string, string>
+  );
+  let [revealed, setRevealed] = useState([] as string[]);
+  let [assists, setAssists] = useState(0);
+  // Whether typed letters are tentative.
+  let [pencil, setPencil] = useState(false);
+  let [slice, setSlice] = useState(null as null | Slice);
+  let [spacing, setSpacing] = useState(1);
+  let [cameraRequest, setCameraRequest] = useState(
+    null as null | CameraRequest
+  );
+  let [viewAids, setViewAids] = useState(DEFAULT_VIEW_AIDS);
+  // The hash of the crossword whose progress is being saved.
+  // This is null in the tutorial and while the saved progress is being loaded.
+  let [progressHash, setProgressHash] = useState(null as null | string);
+  // Saved progress which the user can choose to resume.
+  let [savedProgress, setSavedProgress] = useState(
+    null as null | SolveProgress
+  );
+  let openingHash = useRef(null as null | string);
+
+  let solved = useMemo(
+    () =>
+      crossword !== null &&
+      crossword.words.every((_, i) =>
+        isWordSolved(crossword as Crossword, i, cells)
+      ),
+    [crossword, cells]
+  );
+
+  // The cursor is only shown while it lies in the current word.
+  let activeCursor =
+    crossword !== null &&
+    cursor !== null &&
+    wordsAtPosition(crossword.words, cursor).some(
+      ({ wordIndex }) => wordIndex === currentWordIndex
+    )
+      ? cursor
+      : null;
+
+  let marks = useMemo(() => {
+    let marks = new Map<string, CellMark>();
+    if (crossword === null) {
+      return marks;
+    }
+
+    // Without the answers, a letter is known to be correct when it is in a correct word,
+    // and only whole words are known to be wrong: a checked word that isn't correct marks its letters
+    // which aren't confirmed by a correct crossing word, while they are still the checked letters.
+    let correctPositions = new Set<string>();
+    let wrongPositions = new Set<string>();
+    crossword.words.forEach((word, wordIndex) => {
+      let guess = wordGuess(word, cells);
+      let correct = isCorrectGuess(crossword as Crossword, wordIndex, guess);
+      let positionKeys: string[] = [];
+      for (let i = 0; i < word.word.length; i++) {
+        let position = wordLetterPosition(word.start, word.direction, i);
+        positionKeys.push(`${position[0]} ${position[1]} ${position[2]}`);
+      }
+      if (correct) {
+        positionKeys.forEach((positionKey) =>
+          correctPositions.add(positionKey)
+        );
+      } else if (
+        positionKeys.every(
+          (positionKey, i) =>
+            guess[i] !== " " && checkedLetters[positionKey] === guess[i]
+        )
+      ) {
+        positionKeys.forEach((positionKey) => wrongPositions.add(positionKey));
+      }
+    });
+
+    let revealedPositions = new Set(revealed);
+    for (const { word, direction, start } of crossword.words) {
+      for (let i = 0; i < word.length; i++) {
+        let position = wordLetterPosition(start, direction, i);
+        let positionKey = `${position[0]} ${position[1]} ${position[2]}`;
+        let guess = cells[positionKey]?.letter;
+        let correct = crossword.protection
+          ? correctPositions.has(positionKey)
+          : guess === word[i];
+        if (revealedPositions.has(positionKey) && correct) {
+          marks.set(positionKey, "Revealed");
+        } else if (checkedLetters[positionKey] !== guess) {
+          continue;
+        } else if (correct) {
+          marks.set(positionKey, "Correct");
+        } else if (!crossword.protection || wrongPositions.has(positionKey)) {
+          marks.set(positionKey, "Wrong");
+        }
+      }
+    }
+    return marks;
+  }, [crossword, cells, checkedLetters, revealed]);
+
+  // Sets the guess for a word. Only the changed letters take the pencil mode.
+  function setWordGuess(wordIndex: number, guess: string) {
+    let { word, direction, start } = (crossword as Crossword).words[wordIndex];
+    let newCells = cells;
+    for (let i = 0; i < word.length; i++) {
+      let position = wordLetterPosition(start, direction, i);
+      let cell = cells[`${position[0]} ${position[1]} ${position[2]}`];
+      let letter = guess[i] ?? " ";
+      if (letter !== (cell ? cell.letter : " ")) {
+        newCells = setCellLetter(newCells, position, letter, pencil);
+      }
+    }
+    setCells(newCells);
+  }
+
+  // The positions and answers of the blocks an assist applies to.
+  function assistBlocks(scope: AssistScope) {
+    let blocks: { position: [number, number, number]; answer: string }[] = [];
+    (crossword as Crossword).words.forEach(
+      ({ word, direction, start }, wordIndex) => {
+        if (scope === "Word" && wordIndex !== currentWordIndex) {
+          return;
+        }
+        // Without the answers, only whole words can be checked.
+        if (
+          (crossword as Crossword).protection &&
+          wordGuess((crossword as Crossword).words[wordIndex], cells).includes(
+            " "
+          )
+        ) {
+          return;
+        }
+        for (let i = 0; i < word.length; i++) {
+          let position = wordLetterPosition(start, direction, i);
+          if (
+            scope === "Letter" &&
+            !position.every(
+              (value, j) => activeCursor !== null && value === activeCursor[j]
+            )
+          ) {
+            continue;
+          }
+          blocks.push({ position, answer: word[i] });
+        }
+      }
+    );
+    return blocks;
+  }
+
+  function check(scope: AssistScope) {
+    let newCheckedLetters = { ...checkedLetters };
+    for (const { position } of assistBlocks(scope)) {
+      let positionKey = `${position[0]} ${position[1]} ${position[2]}`;
+      let cell = cells[positionKey];
+      if (cell) {
+        newCheckedLetters[positionKey] = cell.letter;
+      }
+    }
+    setCheckedLetters(newCheckedLetters);
+    setAssists(assists + 1);
+  }
+
+  function reveal(scope: AssistScope) {
+    let newCells = cells;
+    let newRevealed = [...revealed];
+    for (const { position, answer } of assistBlocks(scope)) {
+      let positionKey = `${position[0]} ${position[1]} ${position[2]}`;
+      newCells = setCellLetter(newCells, position, answer, false);
+      if (!newRevealed.includes(positionKey)) {
+        newRevealed.push(positionKey);
+      }
+    }
+    setCells(newCells);
+    setRevealed(newRevealed);
+    setAssists(assists + 1);
+  }
 
   useEffect(() => {
     document.title = "Solve crossword";
   }, []);
 
+  // Guesses can't be made until the saved progress is loaded and the user has chosen whether to resume it,
+  // because resuming replaces the guesses.
+  let progressPending =
+    !tutorial &&
+    crossword !== null &&
+    (progressHash === null || savedProgress !== null);
+
+  // The timer starts on the first guess.
+  let timerStarted = elapsedSeconds > 0 || Object.keys(cells).length > 0;
+  let timerRunning =
+    progressHash !== null &&
+    savedProgress === null &&
+    timerStarted &&
+    !paused &&
+    !hidden &&
+    !solved;
+
+  useEffect(() => {
+    function onVisibilityChange() {
+      setHidden(document.hidden);
+    }
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!timerRunning) {
+      return;
+    }
+
+    let interval = setInterval(() => {
+      setElapsedSeconds((elapsedSeconds) => elapsedSeconds + 1);
+    }, 1000);
+    return () => {
+      clearInterval(interval);
+    };
+  }, [timerRunning]);
+
+  // The progress to save, which is null while there is nothing to save.
+  let progress = useRef(null as null | Omit<SolveProgress, "updated">);
+  progress.current =
+    progressHash === null || savedProgress !== null
+      ? null
+      : {
+          crosswordHash: progressHash,
+          cells,
+          currentWordIndex,
+          orbitCenter,
+          elapsedSeconds,
+          paused,
+          checkedLetters,
+          revealed,
+          assists,
+        };
+
+  function saveProgress() {
+    if (progress.current !== null) {
+      putSolveProgress({ ...progress.current, updated: Date.now() }).catch(
+        (_) => {}
+      );
+    }
+  }
+
+  // Every change is saved, but the timer only every few seconds.
+  useEffect(saveProgress, [
+    progressHash,
+    savedProgress,
+    cells,
+    currentWordIndex,
+    orbitCenter,
+    Math.floor(elapsedSeconds / PROGRESS_TIME_SAVE_SECONDS),
+    paused,
+    checkedLetters,
+    revealed,
+    assists,
+  ]);
+
+  useEffect(() => {
+    function onVisibilityChange() {
+      if (document.hidden) {
+        saveProgress();
+      }
+    }
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    window.addEventListener("pagehide", saveProgress);
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      window.removeEventListener("pagehide", saveProgress);
+      // Leaving the page within the app doesn't hide it.
+      saveProgress();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (
+      crossword === null ||
+      cursor === null ||
+      currentWordIndex === null ||
+      paused ||
+      progressPending
+    ) {
+      return;
+    }
+
+    let cursorWords = wordsAtPosition(crossword.words, cursor);
+    let current = cursorWords.find(
+      ({ wordIndex }) => wordIndex === currentWordIndex
+    );
+    if (current === undefined) {
+      return;
+    }
+    let { start, direction, word } = crossword.words[currentWordIndex];
+    let letterIndex = current.letterIndex;
+
+    function onKeyDown(e: KeyboardEvent) {
+      // Leave typing into the menu's inputs alone.
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement ||
+        e.target instanceof HTMLSelectElement ||
+        e.ctrlKey ||
+        e.metaKey ||
+        e.altKey
+      ) {
+        return;
+      }
+
+      if (/^[a-zA-Z]$/.test(e.key)) {
+        e.preventDefault();
+        // Typing over a tentative letter confirms it when not in pencil mode.
+        setCells(
+          setCellLetter(
+            cells,
+            cursor as [number, number, number],
+            e.key.toUpperCase(),
+            pencil
+          )
+        );
+        if (letterIndex + 1 < word.length) {
+          setCursor(wordLetterPosition(start, direction, letterIndex + 1));
+        }
+      } else if (e.key === "Backspace") {
+        e.preventDefault();
+        let position = cursor as [number, number, number];
+        let cell = cells[`${position[0]} ${position[1]} ${position[2]}`];
+        // Clear the current block, or the previous one if it is already empty.
+        if (cell === undefined && letterIndex > 0) {
+          let previous = wordLetterPosition(start, direction, letterIndex - 1);
+          setCells(setCellLetter(cells, previous, " ", pencil));
+          setCursor(previous);
+        } else {
+          setCells(setCellLetter(cells, position, " ", pencil));
+        }
+      } else if (e.key === " " || e.key === "Tab") {
+        e.preventDefault();
+        // Switch to the next word crossing the current block.
+        let index = cursorWords.indexOf(current as (typeof cursorWords)[0]);
+        setCurrentWordIndex(
+          cursorWords[(index + 1) % cursorWords.length].wordIndex
+        );
+      } else if (e.key === "Escape") {
+        setCursor(null);
+      }
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+    };
+  }, [
+    crossword,
+    cells,
+    cursor,
+    currentWordIndex,
+    paused,
+    progressPending,
+    pencil,
+  ]);
+
+  // The blocks in the viewer are only rebuilt when this changes.
+  let selectBlock = useCallback(
+    (position: [number, number, number]) => {
+      if (crossword === null || progressPending) {
+        return;
+      }
+
+      let blockWords = wordsAtPosition(crossword.words, position);
+      setCursor(position);
+      if (!blockWords.some(({ wordIndex }) => wordIndex === currentWordIndex)) {
+        setCurrentWordIndex(blockWords[0].wordIndex);
+      }
+    },
+    [crossword, progressPending, currentWordIndex]
+  );
+
+  useEffect(() => {
+    if (payload === undefined) {
+      return;
+    }
+
+    let crossword = crosswordFromSharePayload(payload);
+    if (crossword) {
+      setLinkError("");
+      addToLibrary(crossword).catch((_) => {});
+      openCrossword(crossword);
+    } else {
+      setLinkError("Invalid crossword link");
+    }
+  }, [payload]);
+
+  useEffect(() => {
+    let locationState = location.state as null | LibraryLocationState;
+    if (locationState && locationState.crossword) {
+      addToLibrary(locationState.crossword).catch((_) => {});
+      openCrossword(locationState.crossword);
+      // The state is kept across reloads, which would open the crossword again.
+      navigate(location.pathname, { replace: true, state: null });
+    }
+  }, [location.state]);
+
+  function openCrossword(crossword: Crossword) {
+    // The timer of the previous crossword might not have been saved yet.
+    saveProgress();
+    setCrossword(crossword);
+    setCells({});
+    setOrbitCenter([0, 0, 0]);
+    setCurrentWordIndex(null);
+    setCursor(null);
+    setElapsedSeconds(0);
+    setPaused(false);
+    setCheckedLetters({});
+    setRevealed([]);
+    setAssists(0);
+    setPencil(false);
+    setSlice(null);
+    setProgressHash(null);
+    setSavedProgress(null);
+
+    if (tutorial) {
+      return;
+    }
+
+    let hash = crosswordHash(crossword);
+    openingHash.current = hash;
+    getSolveProgress(hash)
+      .catch((_) => undefined)
+      .then((progress) => {
+        // Another crossword was opened while we were loading.
+        if (openingHash.current !== hash) {
+          return;
+        }
+
+        if (progress && Object.keys(progress.cells).length > 0) {
+          setSavedProgress(progress);
+        }
+        setProgressHash(hash);
+      });
+  }
+
   return (
     <div className="grow flex justify-between">
       <div className="border-r p-3 space-y-3 w-60">
@@ -1919,46 +6456,180 @@ function SolveCrossword({ tutorial }: SolveCrosswordProps) {
           <p>Open crossword:</p>
           <OpenCrossword
             onOpen={(crossword) => {
-              setCrossword(crossword);
-              setWords(new Array(crossword.words.length).fill(""));
-              setOrbitCenter([0, 0, 0]);
-              setCurrentWordIndex(null);
+              setLinkError("");
+              // The library keeps crossword files, which can't hold hidden answers.
+              if (!crossword.protection) {
+                addToLibrary(crossword).catch((_) => {});
+              }
+              openCrossword(crossword);
             }}
+            allowSolverFile={true}
           />
+          <span className="text-red-700">{linkError}</span>
         </div>
-        {crossword && (
-          <CrosswordMenu
-            crossword={crossword}
-            words={words}
-            setWords={setWords}
-            currentWordIndex={currentWordIndex}
-            setCurrentWordIndex={setCurrentWordIndex}
-            orbitCenter={orbitCenter}
-            setOrbitCenter={setOrbitCenter}
-          />
+        {savedProgress && (
+          <div className="border-b pb-3 space-y-1">
+            <p>
+              You have saved progress for this crossword (time:{" "}
+              {formatDuration(savedProgress.elapsedSeconds)}).
+            </p>
+            <div className="flex justify-around">
+              <button
+                className="underline"
+                onClick={() => {
+                  let progress = savedProgress as SolveProgress;
+                  setCells(progress.cells);
+                  setCurrentWordIndex(progress.currentWordIndex);
+                  setOrbitCenter(progress.orbitCenter);
+                  setElapsedSeconds(progress.elapsedSeconds);
+                  setPaused(progress.paused);
+                  setCheckedLetters(progress.checkedLetters);
+                  setRevealed(progress.revealed);
+                  setAssists(progress.assists);
+                  setSavedProgress(null);
+                }}
+              >
+                Resume
+              </button>
+              <button
+                className="underline"
+                onClick={() => {
+                  let progress = savedProgress as SolveProgress;
+                  deleteSolveProgress(progress.crosswordHash).catch((_) => {});
+                  setSavedProgress(null);
+                }}
+              >
+                Start over
+              </button>
+            </div>
+          </div>
+        )}
+        {crossword && progressHash !== null && savedProgress === null && (
+          <div className="border-b pb-3 flex justify-between">
+            <span>Time: {formatDuration(elapsedSeconds)}</span>
+            {!solved && timerStarted && (
+              <button
+                className="underline"
+                onClick={() => {
+                  setPaused(!paused);
+                }}
+              >
+                {paused ? "Resume" : "Pause"}
+              </button>
+            )}
+          </div>
         )}
+        <fieldset
+          className={
+            "space-y-3 " +
+            (progressPending ? "opacity-50 pointer-events-none " : "") +
+            (paused && !solved ? "blur-sm pointer-events-none select-none" : "")
+          }
+          disabled={progressPending || (paused && !solved)}
+        >
+          {crossword && (
+            <CrosswordMenu
+              crossword={crossword}
+              cells={cells}
+              setWordGuess={setWordGuess}
+              currentWordIndex={currentWordIndex}
+              setCurrentWordIndex={setCurrentWordIndex}
+              orbitCenter={orbitCenter}
+              setOrbitCenter={setOrbitCenter}
+              flyToWord={(wordIndex) => {
+                setCameraRequest({
+                  type: "Word",
+                  word: (crossword as Crossword).words[wordIndex],
+                });
+              }}
+            />
+          )}
+          {crossword && (
+            <div className="border-t pt-3 flex justify-between">
+              <button
+                className="underline"
+                onClick={() => {
+                  setPencil(!pencil);
+                }}
+              >
+                {pencil ? "Pencil mode: on" : "Pencil mode: off"}
+              </button>
+              {Object.values(cells).some((cell) => cell.pencil) && (
+                <button
+                  className="underline"
+                  onClick={() => {
+                    let newCells: SolveCells = {};
+                    for (const [positionKey, cell] of Object.entries(cells)) {
+                      newCells[positionKey] = { ...cell, pencil: false };
+                    }
+                    setCells(newCells);
+                  }}
+                >
+                  Confirm all
+                </button>
+              )}
+            </div>
+          )}
+          {crossword && (
+            <SolveAssists
+              letterAvailable={activeCursor !== null}
+              wordAvailable={currentWordIndex !== null}
+              answersHidden={crossword.protection !== undefined}
+              assists={assists}
+              onCheck={check}
+              onReveal={reveal}
+            />
+          )}
+        </fieldset>
       </div>
       <div className="grow flex justify-center items-center bg-gray-200">
         <div className="h-5/6 w-11/12 bg-white flex justify-center items-center relative">
           {crossword && (
             <ViewCrossword
               crossword={crossword}
-              words={words}
+              cells={cells}
               currentWordIndex={currentWordIndex}
+              cursor={activeCursor}
+              marks={marks}
+              slice={slice}
+              spacing={spacing}
+              cameraRequest={cameraRequest}
+              viewAids={viewAids}
+              assists={assists}
+              elapsedSeconds={elapsedSeconds}
+              paused={paused}
+              onResume={() => {
+                setPaused(false);
+              }}
+              onSelectBlock={selectBlock}
               orbitCenter={orbitCenter}
               setOrbitCenter={setOrbitCenter}
             />
           )}
+          {crossword && (
+            <div className="absolute bottom-2 right-2 z-10 space-y-2">
+              <ViewAidsControl viewAids={viewAids} setViewAids={setViewAids} />
+              <CameraControls setCameraRequest={setCameraRequest} />
+              <ExplodeControl spacing={spacing} setSpacing={setSpacing} />
+              <SliceControls
+                words={crossword.words}
+                selectedWord={
+                  currentWordIndex === null
+                    ? null
+                    : crossword.words[currentWordIndex]
+                }
+                slice={slice}
+                setSlice={setSlice}
+              />
+            </div>
+          )}
           {!crossword && (
             <p className="text-2xl p-5 text-center">
               Open a crossword to solve from the left menu, or try out this{" "}
               <span
                 className="underline cursor-pointer"
                 onClick={() => {
-                  setCrossword(EXAMPLE_CROSSWORD);
-                  setWords(new Array(EXAMPLE_CROSSWORD.words.length).fill(""));
-                  setOrbitCenter([0, 0, 0]);
-                  setCurrentWordIndex(null);
+                  openCrossword(EXAMPLE_CROSSWORD);
                 }}
               >
                 example
@@ -1972,6 +6643,129 @@ function SolveCrossword({ tutorial }: SolveCrosswordProps) {
   );
 }
 
+function Library() {
+  let [entries, setEntries] = useState(null as null | LibraryEntry[]);
+  let [error, setError] = useState("");
+  let navigate = useNavigate();
+
+  useEffect(() => {
+    document.title = "Library";
+    loadEntries();
+  }, []);
+
+  function loadEntries() {
+    getLibraryEntries()
+      .then((entries) => {
+        // Most recently opened crosswords first.
+        entries.sort((a, b) => b.lastOpened - a.lastOpened);
+        setEntries(entries);
+      })
+      .catch((_) => setError("Couldn't load the library"));
+  }
+
+  return (
+    <div className="grow flex justify-between">
+      <div className="border-r p-3 space-y-1 w-60">
+        <p>Add crossword to library:</p>
+        <OpenCrossword
+          onOpen={(crossword) => {
+            addToLibrary(crossword)
+              .then(loadEntries)
+              .catch((_) => setError("Couldn't add the crossword"));
+          }}
+        />
+      </div>
+      <div className="grow p-3 overflow-auto">
+        <span className="text-red-700">{error}</span>
+        {entries && entries.length === 0 && (
+          <p>
+            The library is empty. Crosswords you open or save will show up here.
+          </p>
+        )}
+        {entries && entries.length > 0 && (
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b">
+                <th className="p-1">Name</th>
+                <th className="p-1">Words</th>
+                <th className="p-1">Added</th>
+                <th className="p-1">Last opened</th>
+                <th className="p-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr className="border-b" key={entry.id}>
+                  <td className="p-1">{entry.crossword.name}</td>
+                  <td className="p-1">{entry.crossword.words.length}</td>
+                  <td className="p-1">
+                    {new Date(entry.added).toLocaleString()}
+                  </td>
+                  <td className="p-1">
+                    {new Date(entry.lastOpened).toLocaleString()}
+                  </td>
+                  <td className="p-1">
+                    <span className="flex gap-3 justify-end items-center">
+                      <button
+                        className="underline"
+                        onClick={() => {
+                          let state: LibraryLocationState = {
+                            crossword: entry.crossword,
+                          };
+                          navigate("/", { state });
+                        }}
+                      >
+                        Solve
+                      </button>
+                      <button
+                        className="underline"
+                        onClick={() => {
+                          let state: LibraryLocationState = {
+                            crossword: entry.crossword,
+                          };
+                          navigate("/create", { state });
+                        }}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        className="underline"
+                        onClick={() => {
+                          createLibraryEntry({
+                            ...entry.crossword,
+                            name: `${entry.crossword.name} (copy)`,
+                          })
+                            .then(loadEntries)
+                            .catch((_) =>
+                              setError("Couldn't duplicate the crossword")
+                            );
+                        }}
+                      >
+                        Duplicate
+                      </button>
+                      <button
+                        onClick={() => {
+                          deleteLibraryEntry(entry.id)
+                            .then(loadEntries)
+                            .catch((_) =>
+                              setError("Couldn't delete the crossword")
+                            );
+                        }}
+                      >
+                        <FaTrash />
+                      </button>
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
 type Slide =
   | {
       type: "Create";
@@ -2034,7 +6828,8 @@ const TUTORIAL_SLIDES: Slide[] = [
         </p>
         <p>
           <span className="font-bold">Direction:</span> The direction of the
-          word.
+          word. X, Y and Z words read right, down and towards the viewer, and
+          -X, -Y and -Z words read the opposite way.
         </p>
         <p>
           <span className="font-bold">Start:</span> The position of the first
@@ -2197,15 +6992,16 @@ const TUTORIAL_SLIDES: Slide[] = [
       <div className="space-y-3">
         <p className="font-bold text-xl">Solving a crossword</p>
         <p>Once a crossword is chosen, you can see the list of words.</p>
-        <p>
-          You can click on the crossword letter blocks in the crossword viewer
-          to select them. The words to which the letter block belongs to are
-          highlighted in the menu.
-        </p>
         <p>
           You can click a word in the menu to select it. When selected, you can
           see the description of the word and fill in your guess.
         </p>
+        <p>
+          You can also click on a letter block in the crossword viewer to place
+          the cursor there and type your guess. The cursor moves along the word
+          as you type, and Backspace moves it back. Press Space or Tab to switch
+          to the word crossing the cursor.
+        </p>
         <p>
           When all the words are correctly guessed, you'll see a victory
           message.
@@ -2313,7 +7109,9 @@ function App() {
         <Navbar />
         <Routes>
           <Route path="/" element={<SolveCrossword />} />
+          <Route path="/solve/:payload" element={<SolveCrossword />} />
           <Route path="/create" element={<CreateCrossword />} />
+          <Route path="/library" element={<Library />} />
           <Route path="/tutorial" element={<Tutorial />} />
         </Routes>
       </div>